@@ -0,0 +1,79 @@
+import TestKit from '../testing/TestKit'
+
+const REMINDER_INTERVAL = 30 * 60 * 1000
+
+describe('LitterBox', () => {
+  let kit: TestKit
+
+  beforeEach(async () => {
+    kit = new TestKit({
+      now: new Date('2021-05-01T10:00:00'),
+      states: [
+        { entity_id: 'input_boolean.litter_box', state: 'off' },
+        { entity_id: 'binary_sensor.litter_box_motion_sensor', state: 'off' },
+        { entity_id: 'automation.litter_box_motion_sensor', state: 'on' },
+        { entity_id: 'automation.litter_box_reset_button', state: 'on' }
+      ]
+    })
+    // The input_boolean follows its services, like in Home Assistant
+    kit.onService('input_boolean', 'turn_on', (call) => kit.setState(call.data.entity_id, 'on'))
+    kit.onService('input_boolean', 'turn_off', (call) => kit.setState(call.data.entity_id, 'off'))
+    await kit.start()
+    kit.load(require('./litter_box'))
+  })
+
+  afterEach(async () => {
+    await kit.teardown()
+  })
+
+  it('turns on the litter box boolean when the motion sensor automation triggers', async () => {
+    await kit.triggerAutomation('automation.litter_box_motion_sensor')
+
+    expect(kit.serviceCallsTo('input_boolean', 'turn_on')).toEqual([
+      { domain: 'input_boolean', service: 'turn_on', data: { entity_id: 'input_boolean.litter_box' } }
+    ])
+  })
+
+  it('notifies both phones and reminds them every 30 minutes', async () => {
+    await kit.setState('input_boolean.litter_box', 'on')
+
+    expect(kit.serviceCallsTo('notify').map((call) => call.service)).toEqual(['mobile_app_s21', 'mobile_app_lynn_s_s20_fe'])
+    expect(kit.serviceCallsTo('notify')[0].data).toEqual({
+      title: 'Litter box',
+      message: 'Litter box needs to be cleaned',
+      data: { persistent: true, tag: 'litter-box' }
+    })
+
+    await kit.advance(REMINDER_INTERVAL - 1)
+    expect(kit.serviceCallsTo('notify')).toHaveLength(2)
+    await kit.advance(1)
+    expect(kit.serviceCallsTo('notify')).toHaveLength(4)
+    await kit.advance(REMINDER_INTERVAL)
+    expect(kit.serviceCallsTo('notify')).toHaveLength(6)
+  })
+
+  it('clears the notifications and stops the reminders when the reset button automation triggers', async () => {
+    await kit.triggerAutomation('automation.litter_box_motion_sensor')
+    expect(kit.connection.states.get('input_boolean.litter_box')!.state).toBe('on')
+
+    await kit.triggerAutomation('automation.litter_box_reset_button')
+
+    expect(kit.connection.states.get('input_boolean.litter_box')!.state).toBe('off')
+    const clears = kit.serviceCallsTo('notify').filter((call) => call.data.message === 'clear_notification')
+    expect(clears.map((call) => call.service)).toEqual(['mobile_app_s21', 'mobile_app_lynn_s_s20_fe'])
+
+    const notifications = kit.serviceCallsTo('notify').length
+    await kit.advance(2 * REMINDER_INTERVAL)
+    expect(kit.serviceCallsTo('notify')).toHaveLength(notifications)
+  })
+
+  it('resets the motion sensor 3 seconds after the reset button', async () => {
+    await kit.setState('binary_sensor.litter_box_motion_sensor', 'on')
+    await kit.triggerAutomation('automation.litter_box_reset_button')
+
+    await kit.advance(2999)
+    expect(kit.connection.states.get('binary_sensor.litter_box_motion_sensor')!.state).toBe('on')
+    await kit.advance(1)
+    expect(kit.connection.states.get('binary_sensor.litter_box_motion_sensor')!.state).toBe('off')
+  })
+})
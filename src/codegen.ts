@@ -0,0 +1,52 @@
+import fs from 'fs'
+import path from 'path'
+import dotenv from 'dotenv'
+import WebsocketConnection from './lib/websocketConnection'
+import Logger from './lib/Logger'
+import { getHomeAssistantConfig } from './lib/config'
+import { generateTypings } from './lib/typings'
+
+// Load environment variables
+dotenv.config()
+
+/**
+ * Import path of a module of src from the folder of the generated file
+ *
+ * @param {string} from       Folder of the generated file
+ * @param {string} module     Module path inside src, without extension
+ * @returns {string}
+ */
+const importPath = (from: string, module: string): string => {
+  const relative = path.relative(from, path.join(__dirname, module)).split(path.sep).join('/')
+  return relative.startsWith('.') ? relative : `./${relative}`
+}
+
+/**
+ * Write the typings of the entities and services of Home Assistant.
+ * Usage: npm run codegen [-- output.d.ts], src/generated/hass.d.ts by default
+ */
+const generate = async () => {
+  const output = path.resolve(process.argv[2] || path.join(__dirname, 'generated', 'hass.d.ts'))
+  const { websocketUrl, token, ca, rejectUnauthorized } = getHomeAssistantConfig()
+  const connection = new WebsocketConnection(websocketUrl, token, { ca, rejectUnauthorized })
+
+  // Requests wait for the connection, or fail after the queue maximum age
+  const [states, services] = await Promise.all([connection.getStates(), connection.getServices()])
+
+  const outputDir = path.dirname(output)
+  const typings = generateTypings(states, services, {
+    entitiesModule: importPath(outputDir, 'entities'),
+    registryModule: importPath(outputDir, 'interfaces/IRegistry'),
+    source: websocketUrl.replace(/\/api\/websocket$/, '')
+  })
+  await fs.promises.mkdir(outputDir, { recursive: true })
+  await fs.promises.writeFile(output, typings)
+  Logger.info(`Typings of ${states.length} entities and ${Object.keys(services).length} service domains written to ${output}`)
+}
+
+generate()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    Logger.error(e)
+    process.exit(1)
+  })
@@ -0,0 +1,26 @@
+import MqttEntity, { IMqttEntityContext, IMqttEntityOptions } from './MqttEntity'
+
+/**
+ * Sensor that is on or off, like motion or an open door (see deviceClass)
+ *
+ * @class MqttBinarySensor
+ * @extends {MqttEntity<boolean>}
+ */
+class MqttBinarySensor extends MqttEntity<boolean> {
+  /**
+   * Creates an instance of MqttBinarySensor.
+   *
+   * @param {IMqttEntityOptions} options
+   * @param {IMqttEntityContext} context
+   * @memberof MqttBinarySensor
+   */
+  constructor(options: IMqttEntityOptions, context: IMqttEntityContext) {
+    super('binary_sensor', options, context)
+  }
+
+  protected _formatState(value: boolean): string {
+    return value ? 'ON' : 'OFF'
+  }
+}
+
+export default MqttBinarySensor
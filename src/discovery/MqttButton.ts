@@ -0,0 +1,29 @@
+import MqttEntity, { IMqttCommandHandler, IMqttEntityContext, IMqttEntityOptions } from './MqttEntity'
+
+/**
+ * Button pressed from Home Assistant, without state
+ *
+ * @class MqttButton
+ * @extends {MqttEntity<never, null>}
+ */
+class MqttButton extends MqttEntity<never, null> {
+  protected _stateful: boolean = false
+
+  /**
+   * Creates an instance of MqttButton.
+   *
+   * @param {IMqttEntityOptions} options
+   * @param {IMqttEntityContext} context
+   * @param {IMqttCommandHandler<null>} handler     Called on each press
+   * @memberof MqttButton
+   */
+  constructor(options: IMqttEntityOptions, context: IMqttEntityContext, handler: IMqttCommandHandler<null>) {
+    super('button', options, context, handler)
+  }
+
+  protected _parseCommand(payload: string): null | undefined {
+    return payload === 'PRESS' ? null : undefined
+  }
+}
+
+export default MqttButton
@@ -0,0 +1,288 @@
+import MQTT from '../lib/mqtt'
+import Logger from '../lib/Logger'
+
+export type IMqttEntityOptions = {
+  // Unique among the entities of the sidecar, with letters, numbers, "_" and "-".
+  // Also the object_id, so the entity_id is <component>.<id>
+  id: string
+  name: string
+  icon?: string
+  deviceClass?: string
+  entityCategory?: 'config' | 'diagnostic'
+  // Extra fields of the discovery config, in the format of Home Assistant
+  config?: { [field: string]: any }
+  // Mark the entity unavailable (default) or remove it from Home Assistant when the automation is destroyed
+  // on hot reload. It is only marked unavailable when the sidecar shuts down
+  onDestroy?: 'unavailable' | 'remove'
+}
+
+export type IMqttCommandHandler<T> = (value: T) => Promise<void> | void
+
+/**
+ * What the entities use from the automation that declares them
+ */
+export type IMqttEntityContext = {
+  mqtt: MQTT
+  // Device of the automation in the discovery config
+  device: { [field: string]: any }
+}
+
+/**
+ * Entity of the sidecar exposed to Home Assistant with MQTT discovery.
+ * Its config, state and availability are retained by the broker, so the entity
+ * and its last state survive restarts of Home Assistant.
+ * It is unavailable when the automation is destroyed or the sidecar disconnects.
+ *
+ * @class MqttEntity
+ * @template T     State value
+ * @template C     Value of the commands
+ */
+abstract class MqttEntity<T, C = T> {
+  readonly id: string
+  readonly component: string
+  readonly uniqueId: string
+  readonly topics: { config: string, state: string, command: string, availability: string }
+
+  protected _options: IMqttEntityOptions
+  protected _context: IMqttEntityContext
+  protected _state?: T
+  // State topic in the config, false for entities without state
+  protected _stateful: boolean = true
+  private _handler?: IMqttCommandHandler<C>
+  private _subscription?: { topic: string, id: number }
+  private _declared: boolean = false
+
+  // Unique ids of the declared entities
+  private static _uniqueIds: Set<string> = new Set()
+
+  /**
+   * Creates an instance of MqttEntity.
+   *
+   * @param {string} component                  Platform of the MQTT integration, for example: sensor
+   * @param {IMqttEntityOptions} options
+   * @param {IMqttEntityContext} context
+   * @param {IMqttCommandHandler<C>} [handler]  Called with the commands sent by Home Assistant
+   * @memberof MqttEntity
+   */
+  constructor(component: string, options: IMqttEntityOptions, context: IMqttEntityContext, handler?: IMqttCommandHandler<C>) {
+    if (!/^[a-zA-Z0-9_-]+$/.test(options.id || '')) {
+      throw new Error(`Invalid MQTT entity id "${options.id}", use letters, numbers, "_" and "-"`)
+    }
+    const { baseTopic, discoveryPrefix } = context.mqtt.config
+    this.id = options.id
+    this.component = component
+    this.uniqueId = `${baseTopic}_${options.id}`
+    this.topics = {
+      config: `${discoveryPrefix}/${component}/${baseTopic}/${options.id}/config`,
+      state: `${baseTopic}/${component}/${options.id}/state`,
+      command: `${baseTopic}/${component}/${options.id}/set`,
+      availability: `${baseTopic}/${component}/${options.id}/availability`
+    }
+    this._options = options
+    this._context = context
+    this._handler = handler
+  }
+
+  /**
+   * Last state published
+   *
+   * @readonly
+   * @type {(T | undefined)}
+   * @memberof MqttEntity
+   */
+  get state(): T | undefined {
+    return this._state
+  }
+
+  /**
+   * Publish the discovery config and mark the entity available.
+   * The state set before is published too, otherwise Home Assistant keeps the retained one
+   *
+   * @memberof MqttEntity
+   */
+  public declare() {
+    if (MqttEntity._uniqueIds.has(this.uniqueId)) {
+      throw new Error(`MQTT entity "${this.id}" is already declared`)
+    }
+    MqttEntity._uniqueIds.add(this.uniqueId)
+    this._declared = true
+
+    if (this._handler) {
+      this._subscription = this._context.mqtt.subscribe(this.topics.command, { qos: 1 }, (topic, payload) => {
+        this._onCommand(payload.toString())
+      })
+    }
+    this._publish(this.topics.config, JSON.stringify({ ...this._discoveryConfig(), ...this._options.config }))
+    if (this._state !== undefined) {
+      this._publish(this.topics.state, this._formatState(this._state))
+    }
+    this._publish(this.topics.availability, 'online')
+  }
+
+  /**
+   * Publish a new state, retained
+   *
+   * @param {T} value
+   * @memberof MqttEntity
+   */
+  public setState(value: T) {
+    if (!this._stateful) {
+      throw new Error(`MQTT ${this.component} ${this.id} has no state`)
+    }
+    this._state = value
+    if (this._declared) {
+      this._publish(this.topics.state, this._formatState(value))
+    }
+  }
+
+  /**
+   * Stop receiving commands and mark the entity unavailable, or remove it
+   * when it was declared with onDestroy: 'remove' and the sidecar is not shutting down
+   *
+   * @param {boolean} [shutdown=false]     The sidecar is exiting, so the entity comes back on the next start
+   * @memberof MqttEntity
+   */
+  public destroy(shutdown: boolean = false) {
+    if (this._options.onDestroy === 'remove' && !shutdown) {
+      this.remove()
+      return
+    }
+    if (this._release()) {
+      this._publish(this.topics.availability, 'offline')
+    }
+  }
+
+  /**
+   * Remove the entity from Home Assistant, clearing its retained messages
+   *
+   * @memberof MqttEntity
+   */
+  public remove() {
+    if (this._release()) {
+      this._publish(this.topics.config, '')
+      if (this._stateful) {
+        this._publish(this.topics.state, '')
+      }
+      this._publish(this.topics.availability, '')
+    }
+  }
+
+  /**
+   * Discovery config, extended by each component
+   *
+   * @protected
+   * @returns {{ [field: string]: any }}
+   * @memberof MqttEntity
+   */
+  protected _discoveryConfig(): { [field: string]: any } {
+    const { icon, deviceClass, entityCategory } = this._options
+    return {
+      name: this._options.name,
+      unique_id: this.uniqueId,
+      object_id: this.id,
+      ...(this._stateful ? { state_topic: this.topics.state } : {}),
+      ...(this._handler ? { command_topic: this.topics.command } : {}),
+      availability: [{ topic: this._context.mqtt.config.statusTopic }, { topic: this.topics.availability }],
+      availability_mode: 'all',
+      device: this._context.device,
+      ...(icon ? { icon } : {}),
+      ...(deviceClass ? { device_class: deviceClass } : {}),
+      ...(entityCategory ? { entity_category: entityCategory } : {})
+    }
+  }
+
+  /**
+   * Payload of a state
+   *
+   * @protected
+   * @param {T} value
+   * @returns {string}
+   * @memberof MqttEntity
+   */
+  protected _formatState(value: T): string {
+    return `${value}`
+  }
+
+  /**
+   * Value of a command payload
+   *
+   * @protected
+   * @param {string} payload
+   * @returns {(C | undefined)}     Undefined for invalid payloads
+   * @memberof MqttEntity
+   */
+  protected _parseCommand(payload: string): C | undefined {
+    return undefined
+  }
+
+  /**
+   * State after a command handled without errors, undefined to keep the current one
+   *
+   * @protected
+   * @param {C} value
+   * @returns {(T | undefined)}
+   * @memberof MqttEntity
+   */
+  protected _commandState(value: C): T | undefined {
+    return undefined
+  }
+
+  /**
+   * Run the handler with a command and publish the resulting state
+   *
+   * @private
+   * @param {string} payload
+   * @memberof MqttEntity
+   */
+  private _onCommand(payload: string) {
+    const value = this._parseCommand(payload)
+    if (value === undefined) {
+      Logger.warn(`Invalid command for MQTT ${this.component} ${this.id}: ${payload}`)
+      return
+    }
+    const handler = this._handler
+    Promise.resolve()
+      .then(() => handler && handler(value))
+      .then(() => {
+        const state = this._commandState(value)
+        if (this._declared && state !== undefined) {
+          this.setState(state)
+        }
+      })
+      .catch(Logger.error)
+  }
+
+  /**
+   * Stop receiving commands and free the unique id
+   *
+   * @private
+   * @returns {boolean}     False if it was not declared
+   * @memberof MqttEntity
+   */
+  private _release(): boolean {
+    if (!this._declared) {
+      return false
+    }
+    this._declared = false
+    MqttEntity._uniqueIds.delete(this.uniqueId)
+    if (this._subscription) {
+      this._context.mqtt.unsubscribe(this._subscription.topic, this._subscription.id)
+      this._subscription = undefined
+    }
+    return true
+  }
+
+  /**
+   * Publish a retained message
+   *
+   * @private
+   * @param {string} topic
+   * @param {string} payload
+   * @memberof MqttEntity
+   */
+  private _publish(topic: string, payload: string) {
+    this._context.mqtt.publish(topic, payload, { qos: 1, retain: true })
+  }
+}
+
+export default MqttEntity
@@ -0,0 +1,56 @@
+import MqttEntity, { IMqttCommandHandler, IMqttEntityContext, IMqttEntityOptions } from './MqttEntity'
+
+export type IMqttNumberOptions = IMqttEntityOptions & {
+  // 1 to 100 by default, like in Home Assistant
+  min?: number
+  max?: number
+  step?: number
+  mode?: 'auto' | 'box' | 'slider'
+  unitOfMeasurement?: string
+}
+
+/**
+ * Number set from Home Assistant.
+ * The state follows the commands once the handler finishes without errors.
+ *
+ * @class MqttNumber
+ * @extends {MqttEntity<number>}
+ */
+class MqttNumber extends MqttEntity<number> {
+  protected _options!: IMqttNumberOptions
+
+  /**
+   * Creates an instance of MqttNumber.
+   *
+   * @param {IMqttNumberOptions} options
+   * @param {IMqttEntityContext} context
+   * @param {IMqttCommandHandler<number>} handler    Called with the new value
+   * @memberof MqttNumber
+   */
+  constructor(options: IMqttNumberOptions, context: IMqttEntityContext, handler: IMqttCommandHandler<number>) {
+    super('number', options, context, handler)
+  }
+
+  protected _discoveryConfig() {
+    const { min, max, step, mode, unitOfMeasurement } = this._options
+    return {
+      ...super._discoveryConfig(),
+      ...(min !== undefined ? { min } : {}),
+      ...(max !== undefined ? { max } : {}),
+      ...(step !== undefined ? { step } : {}),
+      ...(mode ? { mode } : {}),
+      ...(unitOfMeasurement ? { unit_of_measurement: unitOfMeasurement } : {})
+    }
+  }
+
+  protected _parseCommand(payload: string): number | undefined {
+    const value = Number(payload)
+    return payload.trim() === '' || isNaN(value) ? undefined : value
+  }
+
+  protected _commandState(value: number): number {
+    return value
+  }
+}
+
+export default MqttNumber
@@ -0,0 +1,59 @@
+import MqttEntity, { IMqttCommandHandler, IMqttEntityContext, IMqttEntityOptions } from './MqttEntity'
+
+export type IMqttSelectOptions = IMqttEntityOptions & {
+  options: string[]
+}
+
+/**
+ * Option selected from Home Assistant.
+ * The state follows the commands once the handler finishes without errors.
+ *
+ * @class MqttSelect
+ * @extends {MqttEntity<string>}
+ */
+class MqttSelect extends MqttEntity<string> {
+  protected _options!: IMqttSelectOptions
+
+  /**
+   * Creates an instance of MqttSelect.
+   *
+   * @param {IMqttSelectOptions} options
+   * @param {IMqttEntityContext} context
+   * @param {IMqttCommandHandler<string>} handler    Called with the selected option
+   * @memberof MqttSelect
+   */
+  constructor(options: IMqttSelectOptions, context: IMqttEntityContext, handler: IMqttCommandHandler<string>) {
+    if (!options.options || options.options.length === 0) {
+      throw new Error(`MQTT select ${options.id} needs options`)
+    }
+    super('select', options, context, handler)
+  }
+
+  /**
+   * Available options
+   *
+   * @readonly
+   * @type {string[]}
+   * @memberof MqttSelect
+   */
+  get options(): string[] {
+    return this._options.options
+  }
+
+  protected _discoveryConfig() {
+    return {
+      ...super._discoveryConfig(),
+      options: this._options.options
+    }
+  }
+
+  protected _parseCommand(payload: string): string | undefined {
+    return this._options.options.includes(payload) ? payload : undefined
+  }
+
+  protected _commandState(value: string): string {
+    return value
+  }
+}
+
+export default MqttSelect
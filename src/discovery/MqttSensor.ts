@@ -0,0 +1,43 @@
+import MqttEntity, { IMqttEntityContext, IMqttEntityOptions } from './MqttEntity'
+
+export type IMqttSensorOptions = IMqttEntityOptions & {
+  unitOfMeasurement?: string
+  // Needed for the long term statistics
+  stateClass?: 'measurement' | 'total' | 'total_increasing'
+}
+
+/**
+ * Sensor with a number or text value, null is unknown
+ *
+ * @class MqttSensor
+ * @extends {MqttEntity<number | string | null>}
+ */
+class MqttSensor extends MqttEntity<number | string | null> {
+  protected _options!: IMqttSensorOptions
+
+  /**
+   * Creates an instance of MqttSensor.
+   *
+   * @param {IMqttSensorOptions} options
+   * @param {IMqttEntityContext} context
+   * @memberof MqttSensor
+   */
+  constructor(options: IMqttSensorOptions, context: IMqttEntityContext) {
+    super('sensor', options, context)
+  }
+
+  protected _discoveryConfig() {
+    const { unitOfMeasurement, stateClass } = this._options
+    return {
+      ...super._discoveryConfig(),
+      ...(unitOfMeasurement ? { unit_of_measurement: unitOfMeasurement } : {}),
+      ...(stateClass ? { state_class: stateClass } : {})
+    }
+  }
+
+  protected _formatState(value: number | string | null): string {
+    return value === null ? 'None' : `${value}`
+  }
+}
+
+export default MqttSensor
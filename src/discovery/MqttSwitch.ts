@@ -0,0 +1,36 @@
+import MqttEntity, { IMqttCommandHandler, IMqttEntityContext, IMqttEntityOptions } from './MqttEntity'
+
+/**
+ * Switch turned on and off from Home Assistant.
+ * The state follows the commands once the handler finishes without errors.
+ *
+ * @class MqttSwitch
+ * @extends {MqttEntity<boolean>}
+ */
+class MqttSwitch extends MqttEntity<boolean> {
+  /**
+   * Creates an instance of MqttSwitch.
+   *
+   * @param {IMqttEntityOptions} options
+   * @param {IMqttEntityContext} context
+   * @param {IMqttCommandHandler<boolean>} handler    Called with true to turn on and false to turn off
+   * @memberof MqttSwitch
+   */
+  constructor(options: IMqttEntityOptions, context: IMqttEntityContext, handler: IMqttCommandHandler<boolean>) {
+    super('switch', options, context, handler)
+  }
+
+  protected _formatState(value: boolean): string {
+    return value ? 'ON' : 'OFF'
+  }
+
+  protected _parseCommand(payload: string): boolean | undefined {
+    return payload === 'ON' ? true : (payload === 'OFF' ? false : undefined)
+  }
+
+  protected _commandState(value: boolean): boolean {
+    return value
+  }
+}
+
+export default MqttSwitch
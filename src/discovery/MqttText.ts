@@ -0,0 +1,54 @@
+import MqttEntity, { IMqttCommandHandler, IMqttEntityContext, IMqttEntityOptions } from './MqttEntity'
+
+export type IMqttTextOptions = IMqttEntityOptions & {
+  // Length limits, 0 and 255 by default like in Home Assistant
+  min?: number
+  max?: number
+  // Regular expression the text must match
+  pattern?: string
+  mode?: 'text' | 'password'
+}
+
+/**
+ * Text set from Home Assistant.
+ * The state follows the commands once the handler finishes without errors.
+ *
+ * @class MqttText
+ * @extends {MqttEntity<string>}
+ */
+class MqttText extends MqttEntity<string> {
+  protected _options!: IMqttTextOptions
+
+  /**
+   * Creates an instance of MqttText.
+   *
+   * @param {IMqttTextOptions} options
+   * @param {IMqttEntityContext} context
+   * @param {IMqttCommandHandler<string>} handler    Called with the new text
+   * @memberof MqttText
+   */
+  constructor(options: IMqttTextOptions, context: IMqttEntityContext, handler: IMqttCommandHandler<string>) {
+    super('text', options, context, handler)
+  }
+
+  protected _discoveryConfig() {
+    const { min, max, pattern, mode } = this._options
+    return {
+      ...super._discoveryConfig(),
+      ...(min !== undefined ? { min } : {}),
+      ...(max !== undefined ? { max } : {}),
+      ...(pattern ? { pattern } : {}),
+      ...(mode ? { mode } : {})
+    }
+  }
+
+  protected _parseCommand(payload: string): string {
+    return payload
+  }
+
+  protected _commandState(value: string): string {
+    return value
+  }
+}
+
+export default MqttText
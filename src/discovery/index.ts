@@ -0,0 +1,24 @@
+import MqttEntity from './MqttEntity'
+import MqttBinarySensor from './MqttBinarySensor'
+import MqttButton from './MqttButton'
+import MqttNumber from './MqttNumber'
+import MqttSelect from './MqttSelect'
+import MqttSensor from './MqttSensor'
+import MqttSwitch from './MqttSwitch'
+import MqttText from './MqttText'
+
+export * from './MqttEntity'
+export * from './MqttNumber'
+export * from './MqttSelect'
+export * from './MqttSensor'
+export * from './MqttText'
+export {
+  MqttEntity,
+  MqttBinarySensor,
+  MqttButton,
+  MqttNumber,
+  MqttSelect,
+  MqttSensor,
+  MqttSwitch,
+  MqttText
+}
@@ -0,0 +1,142 @@
+import Entity, { IEntityAttributes } from './Entity'
+
+export type IHvacMode = 'off' | 'heat' | 'cool' | 'heat_cool' | 'auto' | 'dry' | 'fan_only'
+
+export type IHvacAction = 'off' | 'preheating' | 'heating' | 'cooling' | 'drying' | 'fan' | 'idle' | 'defrosting'
+
+export type IClimateAttributes = IEntityAttributes & {
+  hvac_modes?: IHvacMode[]
+  hvac_action?: IHvacAction | null
+  current_temperature?: number | null
+  temperature?: number | null
+  target_temp_high?: number | null
+  target_temp_low?: number | null
+  target_temp_step?: number
+  min_temp?: number
+  max_temp?: number
+  current_humidity?: number | null
+  humidity?: number | null
+  preset_mode?: string | null
+  preset_modes?: string[] | null
+  fan_mode?: string | null
+  fan_modes?: string[] | null
+  swing_mode?: string | null
+  swing_modes?: string[] | null
+}
+
+export type IClimateTemperatureData = {
+  temperature?: number
+  target_temp_high?: number
+  target_temp_low?: number
+  // Change the mode at the same time
+  hvac_mode?: IHvacMode
+}
+
+/**
+ * Climate entity: thermostats and air conditioners
+ *
+ * @class ClimateEntity
+ * @extends {Entity<IHvacMode, IClimateAttributes>}
+ */
+class ClimateEntity extends Entity<IHvacMode, IClimateAttributes> {
+  /**
+   * Measured temperature, undefined if unknown
+   *
+   * @readonly
+   * @type {(number | undefined)}
+   * @memberof ClimateEntity
+   */
+  get currentTemperature(): number | undefined {
+    const temperature = this.attributes.current_temperature
+    return typeof temperature === 'number' ? temperature : undefined
+  }
+
+  /**
+   * Target temperature, undefined if unknown or the mode uses a range
+   *
+   * @readonly
+   * @type {(number | undefined)}
+   * @memberof ClimateEntity
+   */
+  get targetTemperature(): number | undefined {
+    const temperature = this.attributes.temperature
+    return typeof temperature === 'number' ? temperature : undefined
+  }
+
+  /**
+   * Set the target temperature, or the range with target_temp_low and target_temp_high
+   *
+   * @param {(number | IClimateTemperatureData)} temperature
+   * @returns {Promise<any>}
+   * @memberof ClimateEntity
+   */
+  public setTemperature(temperature: number | IClimateTemperatureData): Promise<any> {
+    return this.callService('set_temperature', typeof temperature === 'number' ? { temperature } : temperature)
+  }
+
+  /**
+   * Set the operation mode
+   *
+   * @param {IHvacMode} hvacMode
+   * @returns {Promise<any>}
+   * @memberof ClimateEntity
+   */
+  public setHvacMode(hvacMode: IHvacMode): Promise<any> {
+    return this.callService('set_hvac_mode', { hvac_mode: hvacMode })
+  }
+
+  /**
+   * Set a preset mode, one of the preset_modes attribute
+   *
+   * @param {string} presetMode
+   * @returns {Promise<any>}
+   * @memberof ClimateEntity
+   */
+  public setPresetMode(presetMode: string): Promise<any> {
+    return this.callService('set_preset_mode', { preset_mode: presetMode })
+  }
+
+  /**
+   * Set a fan mode, one of the fan_modes attribute
+   *
+   * @param {string} fanMode
+   * @returns {Promise<any>}
+   * @memberof ClimateEntity
+   */
+  public setFanMode(fanMode: string): Promise<any> {
+    return this.callService('set_fan_mode', { fan_mode: fanMode })
+  }
+
+  /**
+   * Set the target humidity
+   *
+   * @param {number} humidity
+   * @returns {Promise<any>}
+   * @memberof ClimateEntity
+   */
+  public setHumidity(humidity: number): Promise<any> {
+    return this.callService('set_humidity', { humidity })
+  }
+
+  /**
+   * Turn on, in the last mode
+   *
+   * @returns {Promise<any>}
+   * @memberof ClimateEntity
+   */
+  public turnOn(): Promise<any> {
+    return this.callService('turn_on')
+  }
+
+  /**
+   * Turn off
+   *
+   * @returns {Promise<any>}
+   * @memberof ClimateEntity
+   */
+  public turnOff(): Promise<any> {
+    return this.callService('turn_off')
+  }
+}
+
+export default ClimateEntity
@@ -0,0 +1,124 @@
+import Entity, { IEntityAttributes } from './Entity'
+
+export type ICoverState = 'open' | 'closed' | 'opening' | 'closing'
+
+export type ICoverAttributes = IEntityAttributes & {
+  // 0 closed to 100 open
+  current_position?: number
+  current_tilt_position?: number
+  device_class?: string
+}
+
+/**
+ * Cover entity: blinds, shutters, garage doors...
+ *
+ * @class CoverEntity
+ * @extends {Entity<ICoverState, ICoverAttributes>}
+ */
+class CoverEntity extends Entity<ICoverState, ICoverAttributes> {
+  /**
+   * Position from 0 (closed) to 100 (open), undefined if the cover does not report it
+   *
+   * @readonly
+   * @type {(number | undefined)}
+   * @memberof CoverEntity
+   */
+  get position(): number | undefined {
+    return this.attributes.current_position
+  }
+
+  /**
+   * Whether the cover is open, even partially
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof CoverEntity
+   */
+  get isOpen(): boolean {
+    return this.state === 'open'
+  }
+
+  /**
+   * Open the cover
+   *
+   * @returns {Promise<any>}
+   * @memberof CoverEntity
+   */
+  public open(): Promise<any> {
+    return this.callService('open_cover')
+  }
+
+  /**
+   * Close the cover
+   *
+   * @returns {Promise<any>}
+   * @memberof CoverEntity
+   */
+  public close(): Promise<any> {
+    return this.callService('close_cover')
+  }
+
+  /**
+   * Stop the cover
+   *
+   * @returns {Promise<any>}
+   * @memberof CoverEntity
+   */
+  public stop(): Promise<any> {
+    return this.callService('stop_cover')
+  }
+
+  /**
+   * Toggle between open and closed
+   *
+   * @returns {Promise<any>}
+   * @memberof CoverEntity
+   */
+  public toggle(): Promise<any> {
+    return this.callService('toggle')
+  }
+
+  /**
+   * Move to a position
+   *
+   * @param {number} position       0 closed to 100 open
+   * @returns {Promise<any>}
+   * @memberof CoverEntity
+   */
+  public setPosition(position: number): Promise<any> {
+    return this.callService('set_cover_position', { position })
+  }
+
+  /**
+   * Open the tilt
+   *
+   * @returns {Promise<any>}
+   * @memberof CoverEntity
+   */
+  public openTilt(): Promise<any> {
+    return this.callService('open_cover_tilt')
+  }
+
+  /**
+   * Close the tilt
+   *
+   * @returns {Promise<any>}
+   * @memberof CoverEntity
+   */
+  public closeTilt(): Promise<any> {
+    return this.callService('close_cover_tilt')
+  }
+
+  /**
+   * Move the tilt to a position
+   *
+   * @param {number} tiltPosition   0 closed to 100 open
+   * @returns {Promise<any>}
+   * @memberof CoverEntity
+   */
+  public setTiltPosition(tiltPosition: number): Promise<any> {
+    return this.callService('set_cover_tilt_position', { tilt_position: tiltPosition })
+  }
+}
+
+export default CoverEntity
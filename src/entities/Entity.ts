@@ -0,0 +1,153 @@
+import { IRequestOptions } from '../interfaces/IConnection'
+import { IState, IStateDiff, IWaitOptions } from '../interfaces/IState'
+import { isUnavailable } from '../lib/helpers'
+
+// States of any entity without a value
+export type IUnavailableState = 'unavailable' | 'unknown'
+
+/**
+ * Attributes shared by every entity
+ */
+export type IEntityAttributes = {
+  friendly_name?: string
+  icon?: string
+  unit_of_measurement?: string
+  supported_features?: number
+  [name: string]: any
+}
+
+/**
+ * State of an entity with the types of its domain
+ */
+export type IEntityState<S extends string, A extends IEntityAttributes> = Omit<IState, 'state' | 'attributes'> & {
+  state: S | IUnavailableState
+  attributes: A
+}
+
+export type IEntityStateCallback<S extends string, A extends IEntityAttributes> =
+  (newState: IEntityState<S, A>, oldState: IEntityState<S, A> | null, diff: IStateDiff) => void
+
+/**
+ * What entity handles use from the automation that creates them.
+ * Subscriptions go through the automation, so they are removed when it is destroyed.
+ * The state type T is the one of the entity handle, states are received as they come from Home Assistant
+ */
+export type IEntityContext = {
+  // Last state received, undefined if the entity does not exist (yet)
+  getState<T extends IState> (entityId: string): T | undefined
+  callService (domain: string, service: string, entityId: string, data: any, options?: IRequestOptions): Promise<any>
+  onStateChange<T extends IState> (entityId: string, callback: (newState: T, oldState: T | null, diff: IStateDiff) => void): void
+  waitForState<T extends IState> (entityId: string, expected: string | ((state: T) => boolean), options?: IWaitOptions): Promise<T>
+}
+
+/**
+ * Handle of an entity, with its state and the services of its domain.
+ * Generic handle for domains without their own class
+ *
+ * @class Entity
+ * @template S     State values
+ * @template A     Attributes
+ */
+class Entity<S extends string = string, A extends IEntityAttributes = IEntityAttributes> {
+  readonly entityId: string
+  readonly domain: string
+
+  protected _context: IEntityContext
+
+  /**
+   * Creates an instance of Entity.
+   *
+   * @param {string} entityId
+   * @param {IEntityContext} context
+   * @memberof Entity
+   */
+  constructor(entityId: string, context: IEntityContext) {
+    this.entityId = entityId
+    this.domain = entityId.split('.')[0]
+    this._context = context
+  }
+
+  /**
+   * Current state value, undefined if the entity does not exist
+   *
+   * @readonly
+   * @type {(S | IUnavailableState | undefined)}
+   * @memberof Entity
+   */
+  get state(): S | IUnavailableState | undefined {
+    const current = this.current
+    return current ? current.state : undefined
+  }
+
+  /**
+   * Current attributes, empty if the entity does not exist
+   *
+   * @readonly
+   * @type {A}
+   * @memberof Entity
+   */
+  get attributes(): A {
+    const current = this.current
+    return current ? current.attributes : {} as A
+  }
+
+  /**
+   * Current full state, undefined if the entity does not exist
+   *
+   * @readonly
+   * @type {(IEntityState<S, A> | undefined)}
+   * @memberof Entity
+   */
+  get current(): IEntityState<S, A> | undefined {
+    return this._context.getState<IEntityState<S, A>>(this.entityId)
+  }
+
+  /**
+   * Whether the entity exists and has a value
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof Entity
+   */
+  get isAvailable(): boolean {
+    const state = this.state
+    return state !== undefined && !isUnavailable(state)
+  }
+
+  /**
+   * Call the callback on each state change
+   *
+   * @param {IEntityStateCallback<S, A>} callback
+   * @memberof Entity
+   */
+  public onChange(callback: IEntityStateCallback<S, A>) {
+    this._context.onStateChange<IEntityState<S, A>>(this.entityId, callback)
+  }
+
+  /**
+   * Wait until the entity reaches a state, see Automation.waitForState
+   *
+   * @param {(S | IUnavailableState | ((state: IEntityState<S, A>) => boolean))} expected
+   * @param {IWaitOptions} [options]
+   * @returns {Promise<IEntityState<S, A>>}
+   * @memberof Entity
+   */
+  public async waitFor(expected: S | IUnavailableState | ((state: IEntityState<S, A>) => boolean), options?: IWaitOptions): Promise<IEntityState<S, A>> {
+    return await this._context.waitForState<IEntityState<S, A>>(this.entityId, expected, options)
+  }
+
+  /**
+   * Call a service of the domain on this entity
+   *
+   * @param {string} service
+   * @param {*} [data]
+   * @param {IRequestOptions} [options]
+   * @returns {Promise<any>}
+   * @memberof Entity
+   */
+  public callService(service: string, data: any = {}, options?: IRequestOptions): Promise<any> {
+    return this._context.callService(this.domain, service, this.entityId, data, options)
+  }
+}
+
+export default Entity
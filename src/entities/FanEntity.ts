@@ -0,0 +1,85 @@
+import { IEntityAttributes } from './Entity'
+import ToggleEntity from './ToggleEntity'
+
+export type IFanDirection = 'forward' | 'reverse'
+
+export type IFanAttributes = IEntityAttributes & {
+  percentage?: number | null
+  percentage_step?: number
+  preset_mode?: string | null
+  preset_modes?: string[] | null
+  oscillating?: boolean
+  direction?: IFanDirection | null
+}
+
+export type IFanTurnOnData = {
+  // 0 to 100
+  percentage?: number
+  preset_mode?: string
+}
+
+/**
+ * Fan entity
+ *
+ * @class FanEntity
+ * @extends {ToggleEntity<IFanAttributes, IFanTurnOnData>}
+ */
+class FanEntity extends ToggleEntity<IFanAttributes, IFanTurnOnData> {
+  /**
+   * Speed from 0 to 100, undefined when unknown
+   *
+   * @readonly
+   * @type {(number | undefined)}
+   * @memberof FanEntity
+   */
+  get percentage(): number | undefined {
+    const percentage = this.attributes.percentage
+    return typeof percentage === 'number' ? percentage : undefined
+  }
+
+  /**
+   * Set the speed
+   *
+   * @param {number} percentage     0 to 100
+   * @returns {Promise<any>}
+   * @memberof FanEntity
+   */
+  public setPercentage(percentage: number): Promise<any> {
+    return this.callService('set_percentage', { percentage })
+  }
+
+  /**
+   * Set a preset mode, one of the preset_modes attribute
+   *
+   * @param {string} presetMode
+   * @returns {Promise<any>}
+   * @memberof FanEntity
+   */
+  public setPresetMode(presetMode: string): Promise<any> {
+    return this.callService('set_preset_mode', { preset_mode: presetMode })
+  }
+
+  /**
+   * Start or stop oscillating
+   *
+   * @param {boolean} oscillating
+   * @returns {Promise<any>}
+   * @memberof FanEntity
+   */
+  public oscillate(oscillating: boolean): Promise<any> {
+    return this.callService('oscillate', { oscillating })
+  }
+
+  /**
+   * Set the direction of rotation
+   *
+   * @param {IFanDirection} direction
+   * @returns {Promise<any>}
+   * @memberof FanEntity
+   */
+  public setDirection(direction: IFanDirection): Promise<any> {
+    return this.callService('set_direction', { direction })
+  }
+}
+
+export default FanEntity
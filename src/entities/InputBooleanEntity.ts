@@ -0,0 +1,17 @@
+import { IEntityAttributes } from './Entity'
+import ToggleEntity from './ToggleEntity'
+
+export type IInputBooleanAttributes = IEntityAttributes & {
+  editable?: boolean
+}
+
+/**
+ * Input boolean helper
+ *
+ * @class InputBooleanEntity
+ * @extends {ToggleEntity<IInputBooleanAttributes>}
+ */
+class InputBooleanEntity extends ToggleEntity<IInputBooleanAttributes> {
+}
+
+export default InputBooleanEntity
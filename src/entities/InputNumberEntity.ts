@@ -0,0 +1,61 @@
+import Entity, { IEntityAttributes } from './Entity'
+
+export type IInputNumberAttributes = IEntityAttributes & {
+  min: number
+  max: number
+  step: number
+  mode?: 'box' | 'slider'
+}
+
+/**
+ * Input number helper
+ *
+ * @class InputNumberEntity
+ * @extends {Entity<string, IInputNumberAttributes>}
+ */
+class InputNumberEntity extends Entity<string, IInputNumberAttributes> {
+  /**
+   * Current value, undefined when unavailable
+   *
+   * @readonly
+   * @type {(number | undefined)}
+   * @memberof InputNumberEntity
+   */
+  get value(): number | undefined {
+    const value = Number(this.state)
+    return this.isAvailable && !isNaN(value) ? value : undefined
+  }
+
+  /**
+   * Set the value
+   *
+   * @param {number} value
+   * @returns {Promise<any>}
+   * @memberof InputNumberEntity
+   */
+  public setValue(value: number): Promise<any> {
+    return this.callService('set_value', { value })
+  }
+
+  /**
+   * Increase the value by one step
+   *
+   * @returns {Promise<any>}
+   * @memberof InputNumberEntity
+   */
+  public increment(): Promise<any> {
+    return this.callService('increment')
+  }
+
+  /**
+   * Decrease the value by one step
+   *
+   * @returns {Promise<any>}
+   * @memberof InputNumberEntity
+   */
+  public decrement(): Promise<any> {
+    return this.callService('decrement')
+  }
+}
+
+export default InputNumberEntity
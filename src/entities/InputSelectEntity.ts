@@ -0,0 +1,90 @@
+import Entity, { IEntityAttributes } from './Entity'
+
+export type IInputSelectAttributes = IEntityAttributes & {
+  options: string[]
+}
+
+/**
+ * Input select helper, its state is the selected option
+ *
+ * @class InputSelectEntity
+ * @extends {Entity<string, IInputSelectAttributes>}
+ */
+class InputSelectEntity extends Entity<string, IInputSelectAttributes> {
+  /**
+   * Available options
+   *
+   * @readonly
+   * @type {string[]}
+   * @memberof InputSelectEntity
+   */
+  get options(): string[] {
+    return this.attributes.options || []
+  }
+
+  /**
+   * Select an option
+   *
+   * @param {string} option
+   * @returns {Promise<any>}
+   * @memberof InputSelectEntity
+   */
+  public selectOption(option: string): Promise<any> {
+    return this.callService('select_option', { option })
+  }
+
+  /**
+   * Select the next option
+   *
+   * @param {boolean} [cycle=true]  Go to the first option after the last one
+   * @returns {Promise<any>}
+   * @memberof InputSelectEntity
+   */
+  public selectNext(cycle: boolean = true): Promise<any> {
+    return this.callService('select_next', { cycle })
+  }
+
+  /**
+   * Select the previous option
+   *
+   * @param {boolean} [cycle=true]  Go to the last option before the first one
+   * @returns {Promise<any>}
+   * @memberof InputSelectEntity
+   */
+  public selectPrevious(cycle: boolean = true): Promise<any> {
+    return this.callService('select_previous', { cycle })
+  }
+
+  /**
+   * Select the first option
+   *
+   * @returns {Promise<any>}
+   * @memberof InputSelectEntity
+   */
+  public selectFirst(): Promise<any> {
+    return this.callService('select_first')
+  }
+
+  /**
+   * Select the last option
+   *
+   * @returns {Promise<any>}
+   * @memberof InputSelectEntity
+   */
+  public selectLast(): Promise<any> {
+    return this.callService('select_last')
+  }
+
+  /**
+   * Replace the options
+   *
+   * @param {string[]} options
+   * @returns {Promise<any>}
+   * @memberof InputSelectEntity
+   */
+  public setOptions(options: string[]): Promise<any> {
+    return this.callService('set_options', { options })
+  }
+}
+
+export default InputSelectEntity
@@ -0,0 +1,90 @@
+import { IEntityAttributes } from './Entity'
+import ToggleEntity from './ToggleEntity'
+
+export type IColorMode = 'onoff' | 'brightness' | 'color_temp' | 'hs' | 'xy' | 'rgb' | 'rgbw' | 'rgbww' | 'white'
+
+export type ILightAttributes = IEntityAttributes & {
+  brightness?: number | null
+  color_mode?: IColorMode | null
+  supported_color_modes?: IColorMode[]
+  color_temp_kelvin?: number | null
+  min_color_temp_kelvin?: number
+  max_color_temp_kelvin?: number
+  hs_color?: [number, number] | null
+  rgb_color?: [number, number, number] | null
+  xy_color?: [number, number] | null
+  effect?: string | null
+  effect_list?: string[]
+}
+
+export type ILightTurnOnData = {
+  // Seconds
+  transition?: number
+  // 0 to 255
+  brightness?: number
+  // 0 to 100
+  brightness_pct?: number
+  // Change the brightness by this amount, -255 to 255
+  brightness_step?: number
+  brightness_step_pct?: number
+  color_temp_kelvin?: number
+  hs_color?: [number, number]
+  rgb_color?: [number, number, number]
+  rgbw_color?: [number, number, number, number]
+  xy_color?: [number, number]
+  color_name?: string
+  white?: boolean
+  effect?: string
+  flash?: 'short' | 'long'
+  profile?: string
+}
+
+export type ILightTurnOffData = {
+  // Seconds
+  transition?: number
+  flash?: 'short' | 'long'
+}
+
+/**
+ * Light entity
+ *
+ * @class LightEntity
+ * @extends {ToggleEntity<ILightAttributes, ILightTurnOnData>}
+ */
+class LightEntity extends ToggleEntity<ILightAttributes, ILightTurnOnData> {
+  /**
+   * Brightness from 0 to 255, undefined when off
+   *
+   * @readonly
+   * @type {(number | undefined)}
+   * @memberof LightEntity
+   */
+  get brightness(): number | undefined {
+    const brightness = this.attributes.brightness
+    return typeof brightness === 'number' ? brightness : undefined
+  }
+
+  /**
+   * Turn off
+   *
+   * @param {ILightTurnOffData} [data]
+   * @returns {Promise<any>}
+   * @memberof LightEntity
+   */
+  public turnOff(data?: ILightTurnOffData): Promise<any> {
+    return this.callService('turn_off', data)
+  }
+
+  /**
+   * Toggle between on and off
+   *
+   * @param {ILightTurnOnData} [data]       Used when turning on
+   * @returns {Promise<any>}
+   * @memberof LightEntity
+   */
+  public toggle(data?: ILightTurnOnData): Promise<any> {
+    return this.callService('toggle', data)
+  }
+}
+
+export default LightEntity
@@ -0,0 +1,62 @@
+import Entity, { IEntityAttributes } from './Entity'
+
+export type ILockState = 'locked' | 'unlocked' | 'locking' | 'unlocking' | 'jammed' | 'open' | 'opening'
+
+export type ILockAttributes = IEntityAttributes & {
+  changed_by?: string | null
+  code_format?: string | null
+}
+
+/**
+ * Lock entity
+ *
+ * @class LockEntity
+ * @extends {Entity<ILockState, ILockAttributes>}
+ */
+class LockEntity extends Entity<ILockState, ILockAttributes> {
+  /**
+   * Whether the lock is locked
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof LockEntity
+   */
+  get isLocked(): boolean {
+    return this.state === 'locked'
+  }
+
+  /**
+   * Lock
+   *
+   * @param {string} [code]         Code required by some locks (code_format attribute)
+   * @returns {Promise<any>}
+   * @memberof LockEntity
+   */
+  public lock(code?: string): Promise<any> {
+    return this.callService('lock', code !== undefined ? { code } : {})
+  }
+
+  /**
+   * Unlock
+   *
+   * @param {string} [code]
+   * @returns {Promise<any>}
+   * @memberof LockEntity
+   */
+  public unlock(code?: string): Promise<any> {
+    return this.callService('unlock', code !== undefined ? { code } : {})
+  }
+
+  /**
+   * Open the latch, for locks that support it
+   *
+   * @param {string} [code]
+   * @returns {Promise<any>}
+   * @memberof LockEntity
+   */
+  public open(code?: string): Promise<any> {
+    return this.callService('open', code !== undefined ? { code } : {})
+  }
+}
+
+export default LockEntity
@@ -0,0 +1,180 @@
+import Entity, { IEntityAttributes } from './Entity'
+
+export type IMediaPlayerState = 'off' | 'on' | 'idle' | 'playing' | 'paused' | 'standby' | 'buffering'
+
+export type IMediaPlayerAttributes = IEntityAttributes & {
+  // 0 to 1
+  volume_level?: number
+  is_volume_muted?: boolean
+  media_content_id?: string
+  media_content_type?: string
+  media_duration?: number
+  media_position?: number
+  media_title?: string
+  media_artist?: string
+  media_album_name?: string
+  app_name?: string
+  source?: string
+  source_list?: string[]
+  sound_mode?: string
+  sound_mode_list?: string[]
+  shuffle?: boolean
+  repeat?: 'off' | 'all' | 'one'
+}
+
+/**
+ * Media player entity
+ *
+ * @class MediaPlayerEntity
+ * @extends {Entity<IMediaPlayerState, IMediaPlayerAttributes>}
+ */
+class MediaPlayerEntity extends Entity<IMediaPlayerState, IMediaPlayerAttributes> {
+  /**
+   * Whether it is playing
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof MediaPlayerEntity
+   */
+  get isPlaying(): boolean {
+    return this.state === 'playing'
+  }
+
+  /**
+   * Volume from 0 to 1, undefined if unknown
+   *
+   * @readonly
+   * @type {(number | undefined)}
+   * @memberof MediaPlayerEntity
+   */
+  get volume(): number | undefined {
+    return this.attributes.volume_level
+  }
+
+  /**
+   * Turn on
+   *
+   * @returns {Promise<any>}
+   * @memberof MediaPlayerEntity
+   */
+  public turnOn(): Promise<any> {
+    return this.callService('turn_on')
+  }
+
+  /**
+   * Turn off
+   *
+   * @returns {Promise<any>}
+   * @memberof MediaPlayerEntity
+   */
+  public turnOff(): Promise<any> {
+    return this.callService('turn_off')
+  }
+
+  /**
+   * Resume playing
+   *
+   * @returns {Promise<any>}
+   * @memberof MediaPlayerEntity
+   */
+  public play(): Promise<any> {
+    return this.callService('media_play')
+  }
+
+  /**
+   * Pause
+   *
+   * @returns {Promise<any>}
+   * @memberof MediaPlayerEntity
+   */
+  public pause(): Promise<any> {
+    return this.callService('media_pause')
+  }
+
+  /**
+   * Toggle between playing and paused
+   *
+   * @returns {Promise<any>}
+   * @memberof MediaPlayerEntity
+   */
+  public playPause(): Promise<any> {
+    return this.callService('media_play_pause')
+  }
+
+  /**
+   * Stop
+   *
+   * @returns {Promise<any>}
+   * @memberof MediaPlayerEntity
+   */
+  public stop(): Promise<any> {
+    return this.callService('media_stop')
+  }
+
+  /**
+   * Next track
+   *
+   * @returns {Promise<any>}
+   * @memberof MediaPlayerEntity
+   */
+  public next(): Promise<any> {
+    return this.callService('media_next_track')
+  }
+
+  /**
+   * Previous track
+   *
+   * @returns {Promise<any>}
+   * @memberof MediaPlayerEntity
+   */
+  public previous(): Promise<any> {
+    return this.callService('media_previous_track')
+  }
+
+  /**
+   * Set the volume
+   *
+   * @param {number} level          0 to 1
+   * @returns {Promise<any>}
+   * @memberof MediaPlayerEntity
+   */
+  public setVolume(level: number): Promise<any> {
+    return this.callService('volume_set', { volume_level: level })
+  }
+
+  /**
+   * Mute or unmute
+   *
+   * @param {boolean} [muted=true]
+   * @returns {Promise<any>}
+   * @memberof MediaPlayerEntity
+   */
+  public mute(muted: boolean = true): Promise<any> {
+    return this.callService('volume_mute', { is_volume_muted: muted })
+  }
+
+  /**
+   * Select an input source, one of the source_list attribute
+   *
+   * @param {string} source
+   * @returns {Promise<any>}
+   * @memberof MediaPlayerEntity
+   */
+  public selectSource(source: string): Promise<any> {
+    return this.callService('select_source', { source })
+  }
+
+  /**
+   * Play some media
+   *
+   * @param {string} contentId      Url or id, depending on the player
+   * @param {string} contentType    For example: music, video, playlist
+   * @returns {Promise<any>}
+   * @memberof MediaPlayerEntity
+   */
+  public playMedia(contentId: string, contentType: string): Promise<any> {
+    return this.callService('play_media', { media_content_id: contentId, media_content_type: contentType })
+  }
+}
+
+export default MediaPlayerEntity
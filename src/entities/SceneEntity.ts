@@ -0,0 +1,26 @@
+import Entity, { IEntityAttributes } from './Entity'
+
+export type ISceneAttributes = IEntityAttributes & {
+  entity_id?: string[]
+}
+
+/**
+ * Scene, its state is the time it was last activated
+ *
+ * @class SceneEntity
+ * @extends {Entity<string, ISceneAttributes>}
+ */
+class SceneEntity extends Entity<string, ISceneAttributes> {
+  /**
+   * Activate the scene
+   *
+   * @param {number} [transition]   Seconds
+   * @returns {Promise<any>}
+   * @memberof SceneEntity
+   */
+  public turnOn(transition?: number): Promise<any> {
+    return this.callService('turn_on', transition !== undefined ? { transition } : {})
+  }
+}
+
+export default SceneEntity
@@ -0,0 +1,49 @@
+import Entity, { IEntityAttributes } from './Entity'
+
+export type IScriptAttributes = IEntityAttributes & {
+  last_triggered?: string | null
+  mode?: 'single' | 'restart' | 'queued' | 'parallel'
+  current?: number
+}
+
+/**
+ * Script, on while it is running
+ *
+ * @class ScriptEntity
+ * @extends {Entity<'on' | 'off', IScriptAttributes>}
+ */
+class ScriptEntity extends Entity<'on' | 'off', IScriptAttributes> {
+  /**
+   * Whether the script is running
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof ScriptEntity
+   */
+  get isRunning(): boolean {
+    return this.state === 'on'
+  }
+
+  /**
+   * Start the script without waiting for it to finish
+   *
+   * @param {{ [name: string]: any }} [variables]
+   * @returns {Promise<any>}
+   * @memberof ScriptEntity
+   */
+  public turnOn(variables?: { [name: string]: any }): Promise<any> {
+    return this.callService('turn_on', variables ? { variables } : {})
+  }
+
+  /**
+   * Stop the script if it is running
+   *
+   * @returns {Promise<any>}
+   * @memberof ScriptEntity
+   */
+  public turnOff(): Promise<any> {
+    return this.callService('turn_off')
+  }
+}
+
+export default ScriptEntity
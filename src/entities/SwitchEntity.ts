@@ -0,0 +1,12 @@
+import ToggleEntity from './ToggleEntity'
+
+/**
+ * Switch entity
+ *
+ * @class SwitchEntity
+ * @extends {ToggleEntity}
+ */
+class SwitchEntity extends ToggleEntity {
+}
+
+export default SwitchEntity
@@ -0,0 +1,55 @@
+import Entity, { IEntityAttributes } from './Entity'
+
+/**
+ * Entity turned on and off with the turn_on, turn_off and toggle services
+ *
+ * @class ToggleEntity
+ * @extends {Entity<'on' | 'off', A>}
+ * @template A     Attributes
+ * @template D     Data of turn_on
+ */
+class ToggleEntity<A extends IEntityAttributes = IEntityAttributes, D = {}> extends Entity<'on' | 'off', A> {
+  /**
+   * Whether the entity is on
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof ToggleEntity
+   */
+  get isOn(): boolean {
+    return this.state === 'on'
+  }
+
+  /**
+   * Turn on
+   *
+   * @param {D} [data]
+   * @returns {Promise<any>}
+   * @memberof ToggleEntity
+   */
+  public turnOn(data?: D): Promise<any> {
+    return this.callService('turn_on', data)
+  }
+
+  /**
+   * Turn off
+   *
+   * @returns {Promise<any>}
+   * @memberof ToggleEntity
+   */
+  public turnOff(): Promise<any> {
+    return this.callService('turn_off')
+  }
+
+  /**
+   * Toggle between on and off
+   *
+   * @returns {Promise<any>}
+   * @memberof ToggleEntity
+   */
+  public toggle(): Promise<any> {
+    return this.callService('toggle')
+  }
+}
+
+export default ToggleEntity
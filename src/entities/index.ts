@@ -0,0 +1,93 @@
+import Entity, { IEntityContext } from './Entity'
+import ClimateEntity from './ClimateEntity'
+import CoverEntity from './CoverEntity'
+import FanEntity from './FanEntity'
+import InputBooleanEntity from './InputBooleanEntity'
+import InputNumberEntity from './InputNumberEntity'
+import InputSelectEntity from './InputSelectEntity'
+import LightEntity from './LightEntity'
+import LockEntity from './LockEntity'
+import MediaPlayerEntity from './MediaPlayerEntity'
+import SceneEntity from './SceneEntity'
+import ScriptEntity from './ScriptEntity'
+import SwitchEntity from './SwitchEntity'
+import ToggleEntity from './ToggleEntity'
+
+/**
+ * Handle class of each domain
+ */
+export interface IEntityDomains {
+  climate: ClimateEntity
+  cover: CoverEntity
+  fan: FanEntity
+  input_boolean: InputBooleanEntity
+  input_number: InputNumberEntity
+  input_select: InputSelectEntity
+  light: LightEntity
+  lock: LockEntity
+  media_player: MediaPlayerEntity
+  scene: SceneEntity
+  script: ScriptEntity
+  switch: SwitchEntity
+}
+
+const DOMAINS: { [domain in keyof IEntityDomains]: new (entityId: string, context: IEntityContext) => IEntityDomains[domain] } = {
+  climate: ClimateEntity,
+  cover: CoverEntity,
+  fan: FanEntity,
+  input_boolean: InputBooleanEntity,
+  input_number: InputNumberEntity,
+  input_select: InputSelectEntity,
+  light: LightEntity,
+  lock: LockEntity,
+  media_player: MediaPlayerEntity,
+  scene: SceneEntity,
+  script: ScriptEntity,
+  switch: SwitchEntity
+}
+
+/**
+ * Create the handle of an entity, of the class of its domain
+ *
+ * @param {string} entityId
+ * @param {IEntityContext} context
+ * @returns {Entity}              Generic Entity for other domains
+ */
+export const createEntity = (entityId: string, context: IEntityContext): Entity<any, any> => {
+  if (!/^\w+\.\w+$/.test(entityId)) {
+    throw new Error(`Invalid entity_id "${entityId}"`)
+  }
+  const domain = entityId.split('.')[0]
+  const EntityClass: new (id: string, ctx: IEntityContext) => Entity<any, any> =
+    DOMAINS.hasOwnProperty(domain) ? DOMAINS[domain as keyof IEntityDomains] : Entity
+  return new EntityClass(entityId, context)
+}
+
+export * from './Entity'
+export * from './ClimateEntity'
+export * from './CoverEntity'
+export * from './FanEntity'
+export * from './InputBooleanEntity'
+export * from './InputNumberEntity'
+export * from './InputSelectEntity'
+export * from './LightEntity'
+export * from './LockEntity'
+export * from './MediaPlayerEntity'
+export * from './SceneEntity'
+export * from './ScriptEntity'
+export {
+  Entity,
+  ClimateEntity,
+  CoverEntity,
+  FanEntity,
+  InputBooleanEntity,
+  InputNumberEntity,
+  InputSelectEntity,
+  LightEntity,
+  LockEntity,
+  MediaPlayerEntity,
+  SceneEntity,
+  ScriptEntity,
+  SwitchEntity,
+  ToggleEntity
+}
@@ -3,6 +3,8 @@ import path from 'path'
 import dotenv from 'dotenv'
 import API from './lib/API'
 import Logger from './lib/Logger';
+import MQTT from './lib/mqtt'
+import Storage from './lib/Storage'
 
 // Load environment variables
 dotenv.config()
@@ -28,6 +30,36 @@ const init = async () => {
   }
 }
 
+/**
+ * Destroy the automations and wait for the MQTT messages and the data to be saved before exiting
+ *
+ * @param {string} signal
+ */
+const shutdown = async (signal: string) => {
+  Logger.info(`${signal} received, shutting down`)
+  try {
+    API.getInstance().unload()
+  } catch (e) {
+    Logger.error(e)
+  }
+  // Only when an automation connected to MQTT
+  if (MQTT.instance) {
+    await MQTT.instance.end()
+  }
+  await Storage.getInstance().flush()
+  process.exit(0)
+}
+
+for (const signal of ['SIGINT', 'SIGTERM'] as NodeJS.Signals[]) {
+  process.once(signal, () => {
+    shutdown(signal)
+      .catch((e) => {
+        Logger.error(e)
+        process.exit(1)
+      })
+  })
+}
+
 // Start
 init()
   .catch((e) => {
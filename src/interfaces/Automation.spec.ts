@@ -0,0 +1,538 @@
+import TestKit from '../testing/TestKit'
+import Logger from '../lib/Logger'
+import { StateTimeoutError, TemplateError, WaitCancelledError } from '../lib/errors'
+import { Automation } from './Automation'
+import { IAttributeCallback, IState, IStateCallback } from './IState'
+
+class TestAutomation extends Automation {
+  // A string field, so the spec compiles with the generated typings of any instance
+  private phone = 'mobile_app_phone'
+
+  constructor() {
+    super('Test')
+    this.registerJobHandler('report', this.report)
+  }
+
+  public wait(expected: string, timeoutMs?: number) {
+    return this.waitForState('light.kitchen', expected, { timeoutMs })
+  }
+
+  public waitUntil(predicate: (state: IState) => boolean) {
+    return this.waitForState('light.kitchen', predicate)
+  }
+
+  public onTemperatureAbove(above: number, hysteresis: number, callback: (value: number) => void) {
+    this.onNumericState('sensor.temperature', { above, hysteresis }, callback)
+  }
+
+  public onKitchenAttributes(attribute: string | string[], callback: IAttributeCallback) {
+    this.onAttributeChange('light.kitchen', attribute, callback)
+  }
+
+  public onDoorOpenFor(durationMs: number, callback: (state: IState) => void) {
+    this.onStateFor('binary_sensor.door', 'on', durationMs, callback)
+  }
+
+  public onKitchenUnavailable(callback: IStateCallback) {
+    this.onUnavailable('light.kitchen', callback)
+  }
+
+  public onAvailableEntity(entityId: string, callback: IStateCallback) {
+    this.onAvailable(entityId, callback)
+  }
+
+  public render(template: string, variables?: { [name: string]: any }) {
+    return this.renderTemplate(template, variables)
+  }
+
+  public watchTemplate(template: string, callback: (result: any) => void) {
+    return this.onTemplateChange(template, callback)
+  }
+
+  public unwatchTemplate(id: number) {
+    return this.clearOnTemplateChange(id)
+  }
+
+  public waitForEntity(expected: string) {
+    return this.entity('light.kitchen').waitFor(expected)
+  }
+
+  public atSunset(offsetMs: number, callback: () => void) {
+    this.onSunset(offsetMs, callback)
+  }
+
+  public atSunrise(offsetMs: number, callback: () => void) {
+    this.onSunrise(offsetMs, callback)
+  }
+
+  public remind(date: Date, handler: string, payload: any, missed?: 'run' | 'skip' | number) {
+    this.runAtPersistent('reminder', date, handler, payload, { missed })
+  }
+
+  public report(payload: { message: string }) {
+    this.callService('notify', this.phone, null, payload)
+  }
+
+  public declareSensor(onDestroy: 'unavailable' | 'remove') {
+    return this.mqttSensor({ id: 'test_sensor', name: 'Test sensor', onDestroy })
+  }
+
+  public waitInTimer(milliseconds: number) {
+    this.setTimeout(async () => {
+      await this.waitForState('light.kitchen', 'off')
+    }, milliseconds)
+  }
+}
+
+describe('Automation', () => {
+  let kit: TestKit
+  let automation: TestAutomation
+
+  beforeEach(async () => {
+    kit = new TestKit({ states: [{ entity_id: 'light.kitchen', state: 'on' }] })
+    await kit.start()
+    automation = kit.load(TestAutomation)
+  })
+
+  afterEach(async () => {
+    await kit.teardown()
+  })
+
+  describe('waitForState', () => {
+    it('resolves with the state once the entity reaches it', async () => {
+      const wait = automation.wait('off')
+      await kit.setState('light.kitchen', 'off')
+
+      expect((await wait).state).toBe('off')
+    })
+
+    it('rejects with StateTimeoutError when the entity does not reach the state in time', async () => {
+      const wait = automation.wait('off', 1000).catch((e) => e)
+      await kit.advance(1000)
+
+      expect(await wait).toBeInstanceOf(StateTimeoutError)
+    })
+
+    it('rejects with WaitCancelledError when the automation is destroyed', async () => {
+      const wait = automation.wait('off', 1000).catch((e) => e)
+      const entityWait = automation.waitForEntity('off').catch((e) => e)
+      automation.destroy()
+
+      expect(await wait).toBeInstanceOf(WaitCancelledError)
+      expect(await entityWait).toMatchObject({ name: 'WaitCancelledError', entityId: 'light.kitchen' })
+    })
+
+    it('rejects with the error thrown by the predicate on the current state', async () => {
+      const wait = automation.waitUntil(() => {
+        throw new Error('Bad predicate')
+      })
+
+      await expect(wait).rejects.toThrow('Bad predicate')
+    })
+
+    it('rejects with the error thrown by the predicate on a state change', async () => {
+      const wait = automation.waitUntil((state) => {
+        if (state.state === 'off') {
+          throw new Error('Bad predicate')
+        }
+        return false
+      }).catch((e) => e)
+      await kit.setState('light.kitchen', 'off')
+
+      expect(await wait).toMatchObject({ message: 'Bad predicate' })
+    })
+
+    it('rejects right away with WaitCancelledError after destroy', async () => {
+      automation.destroy()
+      const onState = jest.spyOn(kit.api, 'onState')
+
+      await expect(automation.wait('off')).rejects.toBeInstanceOf(WaitCancelledError)
+      expect(onState).not.toHaveBeenCalled()
+      onState.mockRestore()
+    })
+
+    it('does not log the waits of timers cancelled by destroy', async () => {
+      const error = jest.spyOn(Logger, 'error')
+      automation.waitInTimer(1000)
+      await kit.advance(1000)
+      automation.destroy()
+      await kit.flush()
+
+      expect(error).not.toHaveBeenCalled()
+      error.mockRestore()
+    })
+  })
+
+  describe('onAttributeChange', () => {
+    let changes: { [name: string]: any }[]
+
+    beforeEach(async () => {
+      changes = []
+      await kit.setState('light.kitchen', 'on', { brightness: 100, color_temp: 300 })
+    })
+
+    it('is called with the changes of the watched attribute', async () => {
+      automation.onKitchenAttributes('brightness', (changed, newState) => changes.push({ ...changed, state: newState.state }))
+
+      await kit.setState('light.kitchen', 'on', { brightness: 50, color_temp: 300 })
+      await kit.setState('light.kitchen', 'on', { brightness: 50, color_temp: 250 })
+      await kit.setState('light.kitchen', 'off', { brightness: 50, color_temp: 250 })
+      await kit.setState('light.kitchen', 'off', { color_temp: 250 })
+
+      expect(changes).toEqual([
+        { brightness: { from: 100, to: 50 }, state: 'on' },
+        { brightness: { from: 50, to: undefined }, state: 'off' }
+      ])
+    })
+
+    it('is called once with every watched attribute changed by an update', async () => {
+      automation.onKitchenAttributes(['brightness', 'color_temp'], (changed) => changes.push(changed))
+
+      await kit.setState('light.kitchen', 'on', { brightness: 50, color_temp: 250, friendly_name: 'Kitchen' })
+
+      expect(changes).toEqual([{ brightness: { from: 100, to: 50 }, color_temp: { from: 300, to: 250 } }])
+    })
+  })
+
+  describe('templates', () => {
+    const TEMPLATE = "{{ states('sensor.temperature') | float + offset }}"
+
+    it('renders a template once with its variables', async () => {
+      await kit.setTemplate(TEMPLATE, (variables: any) => 21.5 + variables.offset)
+
+      expect(await automation.render(TEMPLATE, { offset: 1 })).toBe(22.5)
+      expect(kit.connection.templateSubscriptionCount()).toBe(0)
+    })
+
+    it('rejects with a TemplateError when the template can not be rendered', async () => {
+      await kit.setTemplate(TEMPLATE, () => {
+        throw new Error("UndefinedError: 'offset' is undefined")
+      })
+
+      const error = await automation.render(TEMPLATE).catch((e) => e)
+      expect(error).toBeInstanceOf(TemplateError)
+      expect(error.message).toBe("Error rendering template: UndefinedError: 'offset' is undefined")
+      expect(error.template).toBe(TEMPLATE)
+      expect(kit.connection.templateSubscriptionCount()).toBe(0)
+
+      // Syntax errors are answered to the subscription command
+      await expect(automation.render('{{ states(')).rejects.toBeInstanceOf(TemplateError)
+    })
+
+    it('calls onTemplateChange with the current result and every new one', async () => {
+      const callback = jest.fn()
+      await kit.setTemplate(TEMPLATE, 21.5)
+
+      const id = await automation.watchTemplate(TEMPLATE, callback)
+      await kit.setTemplate(TEMPLATE, 22)
+      await automation.unwatchTemplate(id)
+      await kit.setTemplate(TEMPLATE, 23)
+
+      expect(callback.mock.calls).toEqual([[21.5], [22]])
+      expect(kit.connection.templateSubscriptionCount()).toBe(0)
+    })
+
+    it('logs the errors of later renders and keeps the subscription', async () => {
+      const error = jest.spyOn(Logger, 'error').mockImplementation(() => undefined)
+      const callback = jest.fn()
+      await kit.setTemplate(TEMPLATE, 21.5)
+      await automation.watchTemplate(TEMPLATE, callback)
+
+      await kit.setTemplate(TEMPLATE, () => {
+        throw new Error('ValueError: could not convert string to float')
+      })
+      await kit.setTemplate(TEMPLATE, 22)
+
+      expect(error).toHaveBeenCalledWith(new TemplateError(TEMPLATE, 'ValueError: could not convert string to float'))
+      expect(callback.mock.calls).toEqual([[21.5], [22]])
+      error.mockRestore()
+    })
+
+    it('rejects onTemplateChange with a TemplateError when the first render fails', async () => {
+      await kit.setTemplate(TEMPLATE, () => {
+        throw new Error("UndefinedError: 'offset' is undefined")
+      })
+
+      await expect(automation.watchTemplate(TEMPLATE, jest.fn())).rejects.toBeInstanceOf(TemplateError)
+      expect(kit.connection.templateSubscriptionCount()).toBe(0)
+    })
+
+    it('removes the template subscriptions on destroy', async () => {
+      await kit.setTemplate(TEMPLATE, 21.5)
+      await automation.watchTemplate(TEMPLATE, jest.fn())
+
+      automation.destroy()
+      await kit.flush()
+
+      expect(kit.connection.templateSubscriptionCount()).toBe(0)
+    })
+  })
+
+  describe('onStateFor', () => {
+    const MINUTE = 60 * 1000
+    let fired: IState[]
+
+    const watch = () => {
+      fired = []
+      automation.onDoorOpenFor(5 * MINUTE, (state) => fired.push(state))
+    }
+
+    it('counts a state held before loading from its last_changed', async () => {
+      await kit.setState('binary_sensor.door', 'on')
+      await kit.advance(4 * MINUTE)
+      watch()
+      await kit.flush()
+
+      await kit.advance(MINUTE - 1)
+      expect(fired).toHaveLength(0)
+      await kit.advance(1)
+      expect(fired.map((state) => state.state)).toEqual(['on'])
+    })
+
+    it('restarts the time when the state is left, and fires again once it is held again', async () => {
+      await kit.setState('binary_sensor.door', 'off')
+      watch()
+      await kit.flush()
+
+      await kit.setState('binary_sensor.door', 'on')
+      await kit.advance(3 * MINUTE)
+      await kit.setState('binary_sensor.door', 'off')
+      await kit.setState('binary_sensor.door', 'on')
+      await kit.advance(4 * MINUTE)
+      expect(fired).toHaveLength(0)
+
+      await kit.advance(MINUTE)
+      expect(fired).toHaveLength(1)
+      await kit.advance(10 * MINUTE)
+      expect(fired).toHaveLength(1)
+
+      await kit.setState('binary_sensor.door', 'off')
+      await kit.setState('binary_sensor.door', 'on')
+      await kit.advance(5 * MINUTE)
+      expect(fired).toHaveLength(2)
+    })
+
+    it('keeps counting on updates of the attributes', async () => {
+      await kit.setState('binary_sensor.door', 'off')
+      watch()
+      await kit.flush()
+
+      await kit.setState('binary_sensor.door', 'on')
+      await kit.advance(3 * MINUTE)
+      await kit.setState('binary_sensor.door', 'on', { battery: 80 })
+      await kit.advance(2 * MINUTE)
+      expect(fired).toHaveLength(1)
+    })
+  })
+
+  describe('onUnavailable and onAvailable', () => {
+    const states = (callback: jest.Mock) => callback.mock.calls.map(([newState, oldState]) => [oldState.state, newState.state])
+
+    it('fire when the entity drops out and comes back', async () => {
+      const unavailable = jest.fn()
+      const available = jest.fn()
+      automation.onKitchenUnavailable(unavailable)
+      automation.onAvailableEntity('light.kitchen', available)
+
+      await kit.setState('light.kitchen', 'off')
+      await kit.setState('light.kitchen', 'unavailable')
+      await kit.setState('light.kitchen', 'unknown')
+      await kit.setState('light.kitchen', 'on')
+      await kit.setState('light.kitchen', 'unknown')
+      await kit.setState('light.kitchen', 'off')
+
+      expect(states(unavailable)).toEqual([['off', 'unavailable'], ['on', 'unknown']])
+      expect(states(available)).toEqual([['unknown', 'on'], ['unknown', 'off']])
+    })
+
+    it('warns once about an entity that does not exist, suggesting similar ones', () => {
+      const warn = jest.spyOn(Logger, 'warn').mockImplementation(() => undefined)
+
+      automation.onAvailableEntity('light.kitchn', jest.fn())
+      automation.onAvailableEntity('light.kitchn', jest.fn())
+
+      expect(warn).toHaveBeenCalledTimes(1)
+      expect(warn).toHaveBeenCalledWith('Entity not found: light.kitchn (used by "Test" onAvailable). Did you mean: light.kitchen?')
+      warn.mockRestore()
+    })
+
+    it('warns about the missing entities of automations loaded before the states are synced', async () => {
+      await kit.teardown()
+      const warn = jest.spyOn(Logger, 'warn').mockImplementation(() => undefined)
+      kit = new TestKit({ states: [{ entity_id: 'light.kitchen', state: 'on' }] })
+      kit.load(TestAutomation).onAvailableEntity('light.kitchn', jest.fn())
+      expect(warn).not.toHaveBeenCalled()
+
+      await kit.start()
+      expect(warn).toHaveBeenCalledWith('Entity not found: light.kitchn (used by "Test" onAvailable). Did you mean: light.kitchen?')
+      warn.mockRestore()
+    })
+  })
+
+  describe('onNumericState', () => {
+    let values: number[]
+
+    const watch = async (initial: string, hysteresis: number = 0) => {
+      values = []
+      await kit.setState('sensor.temperature', initial)
+      automation.onTemperatureAbove(25, hysteresis, (value) => values.push(value))
+      await kit.flush()
+    }
+
+    const change = async (...states: string[]) => {
+      for (const state of states) {
+        await kit.setState('sensor.temperature', state)
+      }
+    }
+
+    it('fires once per crossing', async () => {
+      await watch('20')
+      await change('26', '27', '24', '26')
+
+      expect(values).toEqual([26, 26])
+    })
+
+    it('does not fire again until the value moves back past the hysteresis', async () => {
+      await watch('20', 1)
+      await change('26', '24.5', '26', '24', '26')
+
+      expect(values).toEqual([26, 26])
+    })
+
+    it('does not fire for the value on load', async () => {
+      await watch('30')
+      await change('31')
+
+      expect(values).toEqual([])
+    })
+
+    it('fires when the value comes back from unavailable already past the threshold', async () => {
+      await watch('20')
+      await change('unavailable', '30')
+      await change('unknown', '31')
+
+      expect(values).toEqual([30, 31])
+    })
+
+    it('fires for the first value when the entity is unavailable on load', async () => {
+      await watch('unavailable')
+      await change('30')
+
+      expect(values).toEqual([30])
+    })
+  })
+
+  describe('runAtPersistent', () => {
+    it('calls the method of the automation with the payload', async () => {
+      automation.remind(new Date(kit.clock.now + 60000), 'report', { message: 'Reminder' })
+      await kit.advance(60000)
+
+      expect(kit.serviceCallsTo('notify')).toEqual([
+        { domain: 'notify', service: 'mobile_app_phone', data: { message: 'Reminder' } }
+      ])
+    })
+
+    it('rejects handlers that are not registered', () => {
+      expect(() => automation.remind(new Date(), 'unknown', null)).toThrow('unknown is not a job handler of TestAutomation')
+      expect(() => automation.remind(new Date(), 'wait', null)).toThrow('wait is not a job handler of TestAutomation')
+    })
+
+    describe('with jobs missed while not loaded', () => {
+      // The job was due 1 minute after scheduling, the automation is loaded again 10 minutes later
+      const missJob = async (missed?: 'run' | 'skip' | number) => {
+        automation.remind(new Date(kit.clock.now + 60000), 'report', { message: 'Reminder' }, missed)
+        automation.destroy()
+        await kit.advance(10 * 60000)
+        kit.load(TestAutomation)
+        await kit.advance(0)
+        return kit.serviceCallsTo('notify').length
+      }
+
+      it('runs them with the run policy', async () => {
+        expect(await missJob('run')).toBe(1)
+      })
+
+      it('discards them with the skip policy', async () => {
+        expect(await missJob('skip')).toBe(0)
+        expect(kit.storage.file('jobs', 'Test', {}).data).toEqual({})
+      })
+
+      it('runs them only if they are late by less than the minutes of a numeric policy', async () => {
+        expect(await missJob(15)).toBe(1)
+      })
+
+      it('discards them when they are later than the minutes of a numeric policy', async () => {
+        expect(await missJob(5)).toBe(0)
+      })
+    })
+  })
+
+  describe('MQTT entities', () => {
+    const publishedTo = (topic: string) => kit.mqttPublished.filter((m) => m.topic === topic).map((m) => m.payload)
+
+    it('removes the entities declared with onDestroy: remove on hot reload', () => {
+      const sensor = automation.declareSensor('remove')
+      automation.destroy()
+
+      expect(publishedTo(sensor.topics.config).slice(-1)).toEqual([''])
+      expect(publishedTo(sensor.topics.availability)).toEqual(['online', ''])
+    })
+
+    it('only marks them unavailable when the sidecar shuts down', () => {
+      const sensor = automation.declareSensor('remove')
+      automation.destroy(true)
+
+      expect(publishedTo(sensor.topics.config)).not.toContain('')
+      expect(publishedTo(sensor.topics.availability)).toEqual(['online', 'offline'])
+    })
+  })
+})
+
+describe('Automation sun events', () => {
+  // Sunset in Amsterdam is at 20:07:40Z on the 21st of June and at 20:07:50Z on the 22nd
+  const AMSTERDAM = { latitude: 52.3731339, longitude: 4.8903147, elevation: 0 }
+  const HOUR = 3600 * 1000
+  let kit: TestKit
+  let automation: TestAutomation
+
+  beforeEach(async () => {
+    kit = new TestKit({ now: new Date('2021-06-21T20:00:00Z'), location: AMSTERDAM })
+    await kit.start()
+    automation = kit.load(TestAutomation)
+  })
+
+  afterEach(async () => {
+    await kit.teardown()
+  })
+
+  it('runs onSunset with an offset past midnight every day', async () => {
+    const callback = jest.fn()
+    automation.atSunset(4 * HOUR, callback)
+    await kit.flush()
+
+    await kit.advanceTo(new Date('2021-06-22T00:07:00Z'))
+    expect(callback).not.toHaveBeenCalled()
+
+    await kit.advanceTo(new Date('2021-06-22T00:08:00Z'))
+    expect(callback).toHaveBeenCalledTimes(1)
+
+    await kit.advanceTo(new Date('2021-06-23T00:07:30Z'))
+    expect(callback).toHaveBeenCalledTimes(1)
+
+    await kit.advanceTo(new Date('2021-06-23T00:08:00Z'))
+    expect(callback).toHaveBeenCalledTimes(2)
+  })
+
+  it('runs onSunrise with a negative offset before the sunrise of the next day', async () => {
+    // Sunrise on the 22nd of June is at 03:19:32Z
+    const callback = jest.fn()
+    automation.atSunrise(-4 * HOUR, callback)
+    await kit.flush()
+
+    await kit.advanceTo(new Date('2021-06-21T23:19:00Z'))
+    expect(callback).not.toHaveBeenCalled()
+
+    await kit.advanceTo(new Date('2021-06-21T23:20:00Z'))
+    expect(callback).toHaveBeenCalledTimes(1)
+  })
+})
@@ -2,24 +2,88 @@ import API from "../lib/API"
 import mqtt from 'mqtt'
 import MQTT from '../lib/mqtt'
 import { ISubscriptionCallback } from '../lib/mqtt';
-import { IState, IStateCallback } from './IState';
+import { IAttributeCallback, IEntitySelector, IState, IStateCallback, IStatePredicate, IValueChange, IWaitOptions } from './IState';
+import { IRequestOptions } from './IConnection';
+import { IEventCallback, IEventFilter } from './IEvent';
+import { IHistory, IHistoryOptions, IStatistics, IStatisticsPeriod } from './IHistory';
+import { IAreaEntry, IDeviceEntry } from './IRegistryEntries';
 import Logger from "../lib/Logger";
+import { EntityNotFoundError, StateTimeoutError, WaitCancelledError } from "../lib/errors";
+import { isUnavailable } from "../lib/helpers";
+import CronExpression from "../lib/cron";
+import { HORIZON, horizonAt, ILocation, nextSunTime } from "../lib/sun";
+import Scheduler, { IJobInfo } from "../lib/Scheduler";
+import Storage from "../lib/Storage";
+import JsonFile from "../lib/JsonFile";
+import KeyValueStore from "../lib/KeyValueStore";
+import { createEntity, Entity, IEntityContext } from "../entities";
+import {
+  IMqttCommandHandler, IMqttEntityContext, IMqttEntityOptions, IMqttNumberOptions, IMqttSelectOptions, IMqttSensorOptions, IMqttTextOptions,
+  MqttBinarySensor, MqttButton, MqttEntity, MqttNumber, MqttSelect, MqttSensor, MqttSwitch, MqttText
+} from "../discovery";
+import { IEntityId, IEntityRegistry, IServiceData, IServiceDomain, IServiceName, IStateOf, ITypedEntitySelector, ITypedStateCallback, IUncheckedString } from "./IRegistry";
 
+// What to do with persistent jobs whose time passed while not running:
+// run them, skip them, or run them if they are late by less than these minutes
+type IMissedPolicy = 'run' | 'skip' | number
 
-type IQueue = {
-  id: string
-  date: Date
-  callback: () => Promise<void> | void
+type IPersistentJob = {
+  date: string
+  handler: string
+  payload: any
+  missed: IMissedPolicy
 }
 
-type IEachMinute = {
-  id: string,
-  callback: IPromiseCallback<void>
+// Function called by a persistent job with its payload, registered with registerJobHandler
+type IPersistentJobHandler = (payload: any) => Promise<void> | void
+
+type IPersistentJobOptions = {
+  // Jobs missed while not running are run by default
+  missed?: IMissedPolicy
+}
+
+type IScheduleOptions = {
+  // IANA timezone of the expression, for example: Europe/Madrid. Local timezone by default
+  timezone?: string
+}
+
+type INumericStateOptions = {
+  // Fire when the value rises above this threshold
+  above?: number
+  // Fire when the value drops below this threshold
+  below?: number
+  // Distance the value has to move back past the threshold before firing again
+  hysteresis?: number
+  // Read the value from this attribute instead of the state
+  attribute?: string
 }
 
 type IPromiseCallback<T> = () => Promise<T>
 type ICallback = () => void
 
+/**
+ * Predicate of a state value or predicate
+ *
+ * @param {(string | IStatePredicate)} expected
+ * @returns {IStatePredicate}
+ */
+const toPredicate = (expected: string | IStatePredicate): IStatePredicate => {
+  return typeof expected === 'function' ? expected : (state) => state.state === expected
+}
+
+/**
+ * Numeric value of a state or attribute, NaN for unavailable, unknown or not numeric values
+ *
+ * @param {*} raw
+ * @returns {number}
+ */
+const toNumber = (raw: any): number => {
+  if (typeof raw === 'number') {
+    return raw
+  }
+  return typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : NaN
+}
+
 /**
  * Automation class
  * Interacts with Home Assistant websocket connection and
@@ -32,30 +96,39 @@ type ICallback = () => void
  */
 abstract class Automation {
 
-  // Timeout and intervals
-  private _timeouts: NodeJS.Timeout[] = []
-  private _intervals: NodeJS.Timeout[] = []
-
-  // Each minute callbacks
-  private _eachMinutes: IEachMinute[] = []
-  private _lastMinute: number = new Date().getMinutes()
-
-  private _mqttSubscriptions: Map<string, number> = new Map()
-  private _stateSubscriptions: {id: number, entityId: string}[] = []
+  private _mqttSubscriptions: {id: number, topic: string}[] = []
+  private _mqttEntities: MqttEntity<any, any>[] = []
+  private _stateSubscriptions: {id: number, entityId: IEntitySelector}[] = []
   private _automationSubscriptions: {id: number, entityId: string}[] = []
-  private _queue: IQueue[] = []
+  private _eventSubscriptions: {id: number, eventType: string}[] = []
+  private _templateSubscriptions: Set<number> = new Set()
+  // Cancel functions of the pending waitForState calls
+  private _waits: Set<() => void> = new Set()
+
+  private _destroyed: boolean = false
 
   readonly title: string = ''
   readonly description: string = ''
+  // Identifies the automation in the stored data: its file, title or class name
+  readonly namespace: string
+  // JSON values kept between reloads and restarts, saved in the data directory
+  readonly store: KeyValueStore
 
   private _api: API
   private _mqtt: MQTT
+  // Timeouts, intervals, runAt, schedules and sun events
+  private _scheduler: Scheduler
+  // Scheduler job of each persistent job name
+  private _persistentJobs: Map<string, number> = new Map()
+  // Handlers of the persistent jobs by name
+  private _jobHandlers: Map<string, IPersistentJobHandler> = new Map()
+  // Handles returned by entity, one per entity_id
+  private _entities: Map<string, Entity<any, any>> = new Map()
 
   constructor (title?: string, description?: string) {
     this._api = API.getInstance()
     this._mqtt = MQTT.getInstance()
-    this._timeouts = []
-    this._intervals = []
+    this._scheduler = Scheduler.getInstance()
 
     if (title) {
       this.title = title
@@ -64,18 +137,17 @@ abstract class Automation {
       this.description = description
     }
 
+    this.namespace = this._api.loadingAutomation || this.title || this.constructor.name
+    this.store = new KeyValueStore(Storage.getInstance().file('store', this.namespace, {}))
+
     if (title) {
       Logger.info(`Loaded "${this.title}": ${this.description}`)
     }
 
-    this.setInterval(() => {
-      this._checkQueue()
-        .catch(Logger.error)
-    }, 1000)
-
-    this.setInterval(() => {
-      this._checkEachMinute()
-    }, 500)
+    // Once the subclass constructor has finished
+    Promise.resolve()
+      .then(() => this._restorePersistentJobs())
+      .catch(Logger.error)
   }
 
   /**
@@ -92,6 +164,8 @@ abstract class Automation {
 
   /**
    * Subscribe to an mqtt topic
+   * Topic can contain "+" and "#" wildcards, the matched segments are passed
+   * to the callback as the third argument
    *
    * @param {string} topic
    * @param {mqtt.IClientSubscribeOptions} options
@@ -101,22 +175,123 @@ abstract class Automation {
   protected mqttSubscribe (topic: string, options: mqtt.IClientSubscribeOptions, callback: ISubscriptionCallback) {
     try {
       const sub = this._mqtt.subscribe(topic, options, callback)
-      this._mqttSubscriptions.set(sub.topic, sub.id)
+      this._mqttSubscriptions.push(sub)
     } catch (e) {
       Logger.error(e)
     }
   }
 
   /**
-   * Subscribe to an entity_id state change
+   * Expose a sensor to Home Assistant with MQTT discovery, see setState of the returned entity.
+   * Entities exposed by an automation are grouped in a device named after it,
+   * and become unavailable when it is destroyed.
    *
-   * @param {string} entityId
+   * @protected
+   * @param {IMqttSensorOptions} options     id, name, unitOfMeasurement, deviceClass, stateClass...
+   * @returns {MqttSensor}
+   * @memberof Automation
+   */
+  protected mqttSensor(options: IMqttSensorOptions): MqttSensor {
+    return this._declareMqttEntity(new MqttSensor(options, this._mqttEntityContext()))
+  }
+
+  /**
+   * Expose a binary sensor to Home Assistant with MQTT discovery
+   *
+   * @protected
+   * @param {IMqttEntityOptions} options
+   * @returns {MqttBinarySensor}
+   * @memberof Automation
+   */
+  protected mqttBinarySensor(options: IMqttEntityOptions): MqttBinarySensor {
+    return this._declareMqttEntity(new MqttBinarySensor(options, this._mqttEntityContext()))
+  }
+
+  /**
+   * Expose a switch to Home Assistant with MQTT discovery.
+   * Its state follows the commands once the handler finishes without errors.
+   *
+   * @protected
+   * @param {IMqttEntityOptions} options
+   * @param {IMqttCommandHandler<boolean>} handler    Called with true to turn on and false to turn off
+   * @returns {MqttSwitch}
+   * @memberof Automation
+   */
+  protected mqttSwitch(options: IMqttEntityOptions, handler: IMqttCommandHandler<boolean>): MqttSwitch {
+    return this._declareMqttEntity(new MqttSwitch(options, this._mqttEntityContext(), this._mqttHandler(handler)))
+  }
+
+  /**
+   * Expose a button to Home Assistant with MQTT discovery
+   *
+   * @protected
+   * @param {IMqttEntityOptions} options
+   * @param {() => Promise<void> | void} handler      Called on each press
+   * @returns {MqttButton}
+   * @memberof Automation
+   */
+  protected mqttButton(options: IMqttEntityOptions, handler: () => Promise<void> | void): MqttButton {
+    return this._declareMqttEntity(new MqttButton(options, this._mqttEntityContext(), this._mqttHandler<null>(handler)))
+  }
+
+  /**
+   * Expose a number to Home Assistant with MQTT discovery.
+   * Its state follows the commands once the handler finishes without errors.
+   *
+   * @protected
+   * @param {IMqttNumberOptions} options              min, max, step, mode, unitOfMeasurement...
+   * @param {IMqttCommandHandler<number>} handler
+   * @returns {MqttNumber}
+   * @memberof Automation
+   */
+  protected mqttNumber(options: IMqttNumberOptions, handler: IMqttCommandHandler<number>): MqttNumber {
+    return this._declareMqttEntity(new MqttNumber(options, this._mqttEntityContext(), this._mqttHandler(handler)))
+  }
+
+  /**
+   * Expose a select to Home Assistant with MQTT discovery.
+   * Its state follows the commands once the handler finishes without errors.
+   *
+   * @protected
+   * @param {IMqttSelectOptions} options              options, the list of values
+   * @param {IMqttCommandHandler<string>} handler     Called with the selected option
+   * @returns {MqttSelect}
+   * @memberof Automation
+   */
+  protected mqttSelect(options: IMqttSelectOptions, handler: IMqttCommandHandler<string>): MqttSelect {
+    return this._declareMqttEntity(new MqttSelect(options, this._mqttEntityContext(), this._mqttHandler(handler)))
+  }
+
+  /**
+   * Expose a text to Home Assistant with MQTT discovery.
+   * Its state follows the commands once the handler finishes without errors.
+   *
+   * @protected
+   * @param {IMqttTextOptions} options                min, max, pattern, mode...
+   * @param {IMqttCommandHandler<string>} handler
+   * @returns {MqttText}
+   * @memberof Automation
+   */
+  protected mqttText(options: IMqttTextOptions, handler: IMqttCommandHandler<string>): MqttText {
+    return this._declareMqttEntity(new MqttText(options, this._mqttEntityContext(), this._mqttHandler(handler)))
+  }
+
+  /**
+   * Subscribe to state changes of an entity_id, a domain, a glob pattern,
+   * a regular expression or a list of entity_ids.
+   * Entities created later are also notified when they match.
+   * With the generated typings, the states of known entity_ids are typed. Other strings,
+   * like glob patterns or string fields, get untyped states.
+   *
+   * @param {IEntitySelector} entityId
    * @param {IStateCallback} callback
    * @memberof Automation
    */
-  protected onStateChange (entityId: string, callback: IStateCallback) {
-    const listener = this._api.onState(entityId, callback)
-    this._stateSubscriptions.push(listener)
+  protected onStateChange<K extends IEntityId> (entityId: ITypedEntitySelector<K>, callback: ITypedStateCallback<K>): void
+  protected onStateChange(entityId: IEntitySelector, callback: IStateCallback): void
+  protected onStateChange(entityId: IEntitySelector, callback: IStateCallback) {
+    this._checkEntities(entityId, 'onStateChange')
+    this._onStateChange(entityId, callback)
   }
 
   /**
@@ -131,25 +306,385 @@ abstract class Automation {
     this._automationSubscriptions.push(listener)
   }
 
+  /**
+   * Subscribe to a Home Assistant event, for example: zha_event, tag_scanned or custom events
+   *
+   * @param {string} eventType                Event type
+   * @param {IEventFilter} [filter]           Fields the event data must contain, or predicate
+   * @param {IEventCallback} callback
+   * @memberof Automation
+   */
+  protected onEvent(eventType: string, callback: IEventCallback): void
+  protected onEvent(eventType: string, filter: IEventFilter | undefined, callback: IEventCallback): void
+  protected onEvent(eventType: string, filterOrCallback: IEventFilter | IEventCallback | undefined, callback?: IEventCallback) {
+    const listener = callback
+      ? this._api.onEvent(eventType, filterOrCallback as IEventFilter | undefined, callback)
+      : this._api.onEvent(eventType, filterOrCallback as IEventCallback)
+    this._eventSubscriptions.push(listener)
+  }
+
+  /**
+   * Fire an event on the Home Assistant event bus
+   *
+   * @protected
+   * @param {string} eventType            Event type
+   * @param {*} [data]                    Event data
+   * @returns {Promise<any>}
+   * @memberof Automation
+   */
+  protected async fireEvent(eventType: string, data?: any): Promise<any> {
+    return this._api.fireEvent(eventType, data)
+  }
+
+  /**
+   * Render a Home Assistant template once
+   *
+   * @protected
+   * @param {string} template             Jinja template, for example: {{ states('sensor.temperature') | float + 1 }}
+   * @param {*} [variables]               Variables available in the template
+   * @returns {Promise<any>}              Rejected with a TemplateError when it can not be rendered
+   * @memberof Automation
+   */
+  protected async renderTemplate(template: string, variables?: { [name: string]: any }): Promise<any> {
+    return this._api.renderTemplate(template, variables)
+  }
+
+  /**
+   * Subscribe to the result of a template. Home Assistant renders it again when the entities
+   * it uses change, the callback receives the current result first and then every new one.
+   *
+   * @protected
+   * @param {string} template             Jinja template
+   * @param {(result: any) => void} callback
+   * @param {*} [variables]               Variables available in the template
+   * @returns {Promise<number>}           Subscription id, rejected with a TemplateError when the first render fails
+   * @memberof Automation
+   */
+  protected async onTemplateChange(template: string, callback: (result: any) => void, variables?: { [name: string]: any }): Promise<number> {
+    const id = await this._api.onTemplate(template, variables, (result) => {
+      if (!this._destroyed) {
+        callback(result)
+      }
+    })
+    if (this._destroyed) {
+      // Destroyed while subscribing
+      await this._api.clearOnTemplate(id)
+    } else {
+      this._templateSubscriptions.add(id)
+    }
+    return id
+  }
+
+  /**
+   * Remove a template subscription
+   *
+   * @protected
+   * @param {number} id                   Id returned by onTemplateChange
+   * @returns {Promise<void>}
+   * @memberof Automation
+   */
+  protected async clearOnTemplateChange(id: number): Promise<void> {
+    if (this._templateSubscriptions.delete(id)) {
+      await this._api.clearOnTemplate(id)
+    }
+  }
+
   /**
    * Subscribe to a specific state on entity
    *
-   * @param {string} entityId
+   * @param {IEntitySelector} entityId
    * @param {string} state
    * @param {IStateCallback} callback
    * @memberof Automation
    */
-  protected onConcretState (entityId: string, state: string, callback: IStateCallback) {
-    const newCallback: IStateCallback = (newState, oldState) => {
+  protected onConcretState (entityId: IEntitySelector, state: string, callback: IStateCallback) {
+    const newCallback: IStateCallback = (newState, oldState, diff) => {
       if (newState.state === state) {
         try {
-          callback(newState, oldState)
+          callback(newState, oldState, diff)
         } catch (e) {
           Logger.error(e)
         }
       }
     }
-    this.onStateChange(entityId, newCallback)
+    this._checkEntities(entityId, 'onConcretState')
+    this._onStateChange(entityId, newCallback)
+  }
+
+  /**
+   * Subscribe to changes of some attributes, ignoring the updates of the state value
+   * and of other attributes. The callback receives the old and new values of the
+   * watched attributes that changed.
+   *
+   * @param {IEntitySelector} entityId
+   * @param {(string | string[])} attribute      Attribute name or names
+   * @param {IAttributeCallback} callback
+   * @memberof Automation
+   */
+  protected onAttributeChange (entityId: IEntitySelector, attribute: string | string[], callback: IAttributeCallback) {
+    const names = Array.isArray(attribute) ? attribute : [attribute]
+    this._checkEntities(entityId, 'onAttributeChange')
+    this._onStateChange(entityId, (newState, oldState, diff) => {
+      const changes: { [name: string]: IValueChange<any> } = {}
+      for (const name of names) {
+        if (diff.attributes[name]) {
+          changes[name] = diff.attributes[name]
+        }
+      }
+      if (Object.keys(changes).length > 0) {
+        try {
+          callback(changes, newState)
+        } catch (e) {
+          Logger.error(e)
+        }
+      }
+    })
+  }
+
+  /**
+   * Call the callback when a numeric state (or attribute) crosses into the range
+   * defined by above and/or below. It fires once per crossing, not on every update.
+   * With hysteresis, the value has to leave the range by that amount before it can fire again.
+   * Like the numeric_state trigger of Home Assistant, unavailable, unknown and not numeric values
+   * do not fire, but the next value in the range fires, even if it was in the range before.
+   * The value on load only sets the initial side, as the first value of an entity created later.
+   *
+   * @protected
+   * @param {string} entityId
+   * @param {INumericStateOptions} options
+   * @param {(value: number, state: IState) => void} callback
+   * @memberof Automation
+   */
+  protected onNumericState(entityId: string, options: INumericStateOptions, callback: (value: number, state: IState) => void) {
+    const { above, below, attribute } = options
+    const hysteresis = options.hysteresis || 0
+    if (above === undefined && below === undefined) {
+      throw new Error('onNumericState needs an above or below threshold')
+    }
+    if (hysteresis < 0) {
+      throw new Error('onNumericState hysteresis can not be negative')
+    }
+
+    const read = (state: IState) => toNumber(attribute ? state.attributes[attribute] : state.state)
+    const entersRange = (value: number) =>
+      (above === undefined || value > above) && (below === undefined || value < below)
+    const leavesRange = (value: number) =>
+      (above !== undefined && value <= above - hysteresis) || (below !== undefined && value >= below + hysteresis)
+    // Unknown until the first numeric value
+    let inRange: boolean | undefined
+
+    this._checkEntities(entityId, 'onNumericState')
+    this._onStateChange(entityId, (newState) => {
+      const value = read(newState)
+      if (isNaN(value)) {
+        Logger.debug(`${entityId} has no numeric value (${attribute ? 'attribute ' + attribute : newState.state}), ignored`)
+        inRange = false
+        return
+      }
+      if (inRange === undefined) {
+        inRange = entersRange(value)
+      } else if (!inRange && entersRange(value)) {
+        inRange = true
+        try {
+          callback(value, newState)
+        } catch (e) {
+          Logger.error(e)
+        }
+      } else if (inRange && leavesRange(value)) {
+        inRange = false
+      }
+    })
+
+    // Initial side, without firing
+    this._api.getState(entityId)
+      .then((state) => {
+        const value = read(state)
+        if (inRange === undefined) {
+          inRange = !isNaN(value) && entersRange(value)
+        }
+      })
+      .catch(() => {
+        // Not available yet, the first change sets the initial side
+      })
+  }
+
+  /**
+   * Wait until an entity reaches a state.
+   * Resolves immediately if the current state already matches.
+   *
+   * @protected
+   * @param {string} entityId
+   * @param {(string | IStatePredicate)} expected   State value or predicate
+   * @param {IWaitOptions} [options]
+   * @returns {Promise<IState>}                    Matching state, rejected with StateTimeoutError on timeout,
+   *                                               with WaitCancelledError when the automation is destroyed
+   *                                               and with the error thrown by the predicate
+   * @memberof Automation
+   */
+  protected waitForState(entityId: string, expected: string | IStatePredicate, options: IWaitOptions = {}): Promise<IState> {
+    if (this._destroyed) {
+      return Promise.reject(new WaitCancelledError(entityId))
+    }
+    const matches = toPredicate(expected)
+    this._checkEntities(entityId, 'waitForState')
+
+    return new Promise((resolve, reject) => {
+      let timeout: number | undefined
+      const cleanup = () => {
+        this._waits.delete(cancel)
+        this._api.clearOnState(entityId, listener.id)
+        if (timeout !== undefined) {
+          this.clearTimeout(timeout)
+        }
+      }
+      const cancel = () => {
+        cleanup()
+        reject(new WaitCancelledError(entityId))
+      }
+      const check = (state: IState) => {
+        if (!this._waits.has(cancel)) {
+          return
+        }
+        let matched: boolean
+        try {
+          matched = matches(state)
+        } catch (e) {
+          cleanup()
+          reject(e)
+          return
+        }
+        if (matched) {
+          cleanup()
+          resolve(state)
+        }
+      }
+
+      const listener = this._api.onState(entityId, check)
+      this._waits.add(cancel)
+
+      if (options.timeoutMs !== undefined) {
+        const timeoutMs = options.timeoutMs
+        timeout = this.setTimeout(() => {
+          cleanup()
+          reject(new StateTimeoutError(entityId, timeoutMs))
+        }, timeoutMs)
+      }
+
+      this._api.getState(entityId)
+        .then(check, (e) => {
+          // Not available yet, wait for the first state
+          if (!(e instanceof EntityNotFoundError) && this._waits.has(cancel)) {
+            cleanup()
+            reject(e)
+          }
+        })
+    })
+  }
+
+  /**
+   * Call the callback when an entity keeps a state for some time,
+   * like the "for" option of Home Assistant triggers.
+   * The time is restarted when the entity leaves the state and comes back, and
+   * it fires once each time the state is held. When the automation is loaded with
+   * the entity already in the state, the time is counted from its last_changed.
+   *
+   * @protected
+   * @param {string} entityId
+   * @param {(string | IStatePredicate)} expected   State value or predicate
+   * @param {number} durationMs                     Time the state has to be held
+   * @param {(state: IState) => void} callback      Called with the current state
+   * @memberof Automation
+   */
+  protected onStateFor(entityId: string, expected: string | IStatePredicate, durationMs: number, callback: (state: IState) => void) {
+    const matches = toPredicate(expected)
+    this._checkEntities(entityId, 'onStateFor')
+    let matching = false
+    let current: IState
+    let timer: number | undefined
+
+    const start = (since: Date) => {
+      matching = true
+      const elapsed = Math.max(0, this._scheduler.now() - since.getTime())
+      timer = this.setTimeout(() => {
+        timer = undefined
+        try {
+          callback(current)
+        } catch (e) {
+          Logger.error(e)
+        }
+      }, Math.max(0, durationMs - elapsed))
+    }
+
+    this._onStateChange(entityId, (newState, oldState) => {
+      current = newState
+      if (!matches(newState)) {
+        matching = false
+        if (timer !== undefined) {
+          this.clearTimeout(timer)
+          timer = undefined
+        }
+      } else if (!matching) {
+        // last_changed is only the start of the period when the state value changed,
+        // it can be earlier than now for changes notified after a reconnection
+        start(oldState && oldState.state !== newState.state ? newState.last_changed : new Date(this._scheduler.now()))
+      }
+    })
+
+    // Pick up the state if it is already held
+    this._api.getState(entityId)
+      .then((state) => {
+        if (!this._destroyed && !matching && matches(state)) {
+          current = state
+          start(state.last_changed)
+        }
+      })
+      .catch(() => {
+        // Not available yet, wait for the first state
+      })
+  }
+
+  /**
+   * Call the callback when an entity becomes unavailable: its state changes from a value
+   * to "unavailable" or "unknown", like devices dropping out of the network
+   *
+   * @protected
+   * @param {IEntitySelector} entityId
+   * @param {IStateCallback} callback
+   * @memberof Automation
+   */
+  protected onUnavailable(entityId: IEntitySelector, callback: IStateCallback) {
+    this._checkEntities(entityId, 'onUnavailable')
+    this._onStateChange(entityId, (newState, oldState, diff) => {
+      if (oldState && !isUnavailable(oldState.state) && isUnavailable(newState.state)) {
+        try {
+          callback(newState, oldState, diff)
+        } catch (e) {
+          Logger.error(e)
+        }
+      }
+    })
+  }
+
+  /**
+   * Call the callback when an entity becomes available again: its state changes
+   * from "unavailable" or "unknown" to a value
+   *
+   * @protected
+   * @param {IEntitySelector} entityId
+   * @param {IStateCallback} callback
+   * @memberof Automation
+   */
+  protected onAvailable(entityId: IEntitySelector, callback: IStateCallback) {
+    this._checkEntities(entityId, 'onAvailable')
+    this._onStateChange(entityId, (newState, oldState, diff) => {
+      if (oldState && isUnavailable(oldState.state) && !isUnavailable(newState.state)) {
+        try {
+          callback(newState, oldState, diff)
+        } catch (e) {
+          Logger.error(e)
+        }
+      }
+    })
   }
 
   /**
@@ -158,28 +693,172 @@ abstract class Automation {
    * @protected
    * @param {Date} date                               Date when execute
    * @param {(() => Promise<void> | void)} callback   Callback
-   * @returns {string}                                Queue id
+   * @returns {number}                                Job id
    * @memberof Automation
    */
-  protected runAt(date: Date, callback: () => Promise<void> | void): string {
-    const id = `${Date.now()}-${Math.floor(Math.random() * 10000)}`
-    this._queue.push({
-      id,
-      date,
-      callback
+  protected runAt(date: Date, callback: () => Promise<void> | void): number {
+    return this._scheduler.add(this, date.getTime(), () => this._run(callback), {
+      type: 'runAt'
     })
-    return id
   }
 
   /**
    * Clear run at queue
    *
    * @protected
-   * @param {string} id      queue id
+   * @param {number} id      job id
+   * @memberof Automation
+   */
+  protected clearRunAt(id: number) {
+    this._scheduler.cancel(id)
+  }
+
+  /**
+   * Register a handler of persistent jobs by name.
+   * Register them in the constructor, so the stored jobs find them when the automation is loaded
+   *
+   * @protected
+   * @param {string} name                        Name used by runAtPersistent
+   * @param {IPersistentJobHandler} handler      Called with the payload of the job
+   * @memberof Automation
+   */
+  protected registerJobHandler(name: string, handler: IPersistentJobHandler) {
+    this._jobHandlers.set(name, handler)
+  }
+
+  /**
+   * Call a registered handler at a date, even if the process restarts meanwhile.
+   * The job is stored in the data directory with its name, the handler name and the payload,
+   * and it is scheduled again when the automation is loaded. Scheduling a name again replaces the job.
+   *
+   * @protected
+   * @param {string} name                        Job name, unique in the automation
+   * @param {Date} date                          Date when execute
+   * @param {string} handler                     Name of the handler, see registerJobHandler
+   * @param {*} [payload]                        JSON value passed to the handler
+   * @param {IPersistentJobOptions} [options]    What to do if the date passes while not running
+   * @memberof Automation
+   */
+  protected runAtPersistent(name: string, date: Date, handler: string, payload?: any, options: IPersistentJobOptions = {}) {
+    if (!this._jobHandlers.has(handler)) {
+      throw new Error(`${handler} is not a job handler of ${this.constructor.name}, register it with registerJobHandler`)
+    }
+    const job: IPersistentJob = {
+      date: date.toISOString(),
+      handler,
+      payload: payload === undefined ? null : JSON.parse(JSON.stringify(payload)),
+      missed: options.missed === undefined ? 'run' : options.missed
+    }
+    const file = this._persistentJobsFile()
+    file.data[name] = job
+    file.save().catch(Logger.error)
+    this._schedulePersistentJob(name, job)
+  }
+
+  /**
+   * Cancel a persistent job and remove it from the data directory
+   *
+   * @protected
+   * @param {string} name      job name
+   * @memberof Automation
+   */
+  protected clearRunAtPersistent(name: string) {
+    const id = this._persistentJobs.get(name)
+    if (id !== undefined) {
+      this._scheduler.cancel(id)
+      this._persistentJobs.delete(name)
+    }
+    const file = this._persistentJobsFile()
+    if (file.data[name]) {
+      delete file.data[name]
+      file.save().catch(Logger.error)
+    }
+  }
+
+  /**
+   * Run a function on the times of a cron expression:
+   * [second] minute hour day-of-month month day-of-week
+   * See CronExpression for the supported syntax and the daylight saving time behaviour.
+   *
+   * @protected
+   * @param {string} expression                       Cron expression, for example: 0 30 7 * * MON-FRI
+   * @param {(() => Promise<void> | void)} callback   Callback
+   * @param {IScheduleOptions} [options]              Timezone of the expression
+   * @returns {number}                                Job id
+   * @memberof Automation
+   */
+  protected schedule(expression: string, callback: () => Promise<void> | void, options: IScheduleOptions = {}): number {
+    const cron = new CronExpression(expression, options.timezone)
+    // Do not catch up when the process was suspended
+    const next = (time: number) => cron.next(new Date(Math.max(time, this._scheduler.now()))).getTime()
+    return this._scheduler.add(this, next(this._scheduler.now()), () => this._run(callback), {
+      type: 'schedule',
+      description: expression,
+      next
+    })
+  }
+
+  /**
+   * Cancel a schedule
+   *
+   * @protected
+   * @param {number} id      job id
+   * @memberof Automation
+   */
+  protected clearSchedule(id: number) {
+    this._scheduler.cancel(id)
+  }
+
+  /**
+   * Run a function every day at sunrise, optionally some time before (negative offset) or after.
+   * Cancel it with clearSchedule.
+   *
+   * @protected
+   * @param {number} [offsetMs]                       Milliseconds from the sunrise
+   * @param {(() => Promise<void> | void)} callback   Callback
+   * @returns {number}                                Job id
+   * @memberof Automation
+   */
+  protected onSunrise(callback: () => Promise<void> | void): number
+  protected onSunrise(offsetMs: number, callback: () => Promise<void> | void): number
+  protected onSunrise(offsetOrCallback: number | (() => Promise<void> | void), callback?: () => Promise<void> | void): number {
+    return typeof offsetOrCallback === 'number'
+      ? this._onSun(null, true, offsetOrCallback, callback as () => Promise<void> | void)
+      : this._onSun(null, true, 0, offsetOrCallback)
+  }
+
+  /**
+   * Run a function every day at sunset, optionally some time before (negative offset) or after.
+   * Cancel it with clearSchedule.
+   *
+   * @protected
+   * @param {number} [offsetMs]                       Milliseconds from the sunset
+   * @param {(() => Promise<void> | void)} callback   Callback
+   * @returns {number}                                Job id
+   * @memberof Automation
+   */
+  protected onSunset(callback: () => Promise<void> | void): number
+  protected onSunset(offsetMs: number, callback: () => Promise<void> | void): number
+  protected onSunset(offsetOrCallback: number | (() => Promise<void> | void), callback?: () => Promise<void> | void): number {
+    return typeof offsetOrCallback === 'number'
+      ? this._onSun(null, false, offsetOrCallback, callback as () => Promise<void> | void)
+      : this._onSun(null, false, 0, offsetOrCallback)
+  }
+
+  /**
+   * Run a function every day when the sun crosses an elevation, in the morning (rising)
+   * or in the evening (setting). Days the sun does not reach it are skipped.
+   * Cancel it with clearSchedule.
+   *
+   * @protected
+   * @param {number} degrees                          Sun elevation, negative below the horizon
+   * @param {('rising' | 'setting')} direction
+   * @param {(() => Promise<void> | void)} callback   Callback
+   * @returns {number}                                Job id
    * @memberof Automation
    */
-  protected clearRunAt(id: string) {
-    this._queue = this._queue.filter((q) => q.id !== id)
+  protected onSolarElevation(degrees: number, direction: 'rising' | 'setting', callback: () => Promise<void> | void): number {
+    return this._onSun(degrees, direction === 'rising', 0, callback)
   }
 
   /**
@@ -187,77 +866,311 @@ abstract class Automation {
    *
    * @param   {IPromiseCallback<void>}  callback  Promise callback
    *
-   * @return  {<string>}                          Return id of the interval
+   * @return  {<number>}                          Return id of the job
    */
-  protected setEachMinute(callback: IPromiseCallback<void>): string {
-    const id = `${Date.now()}-${Math.floor(Math.random() * 1000)}`
-    this._eachMinutes.push({
-      id,
-      callback
-    })
-    return id
+  protected setEachMinute(callback: IPromiseCallback<void>): number {
+    return this.schedule('0 * * * * *', callback)
   }
 
   /**
    * Clear each minute callback by id
    *
-   * @param   {string}  id  Callback id
+   * @param   {number}  id  Job id
    *
    * @return  {void}      void
    */
-  protected clearEachMinute(id: string) {
-    this._eachMinutes = this._eachMinutes.filter((item) => item.id !== id)
+  protected clearEachMinute(id: number) {
+    this._scheduler.cancel(id)
   }
 
   /**
-   * Check if any queue have to be execute at this time
+   * Pending timeouts, intervals, runAt, schedules and sun events of this automation
+   *
+   * @returns {IJobInfo[]}
+   * @memberof Automation
+   */
+  public pendingJobs(): IJobInfo[] {
+    return this._scheduler.jobs(this)
+  }
+
+  /**
+   * Schedule the crossings of a sun elevation, calculated with the location of Home Assistant.
+   * The job waits without time until the location is known.
    *
    * @private
+   * @param {(number | null)} degrees                 Sun elevation, null for the horizon (sunrise and sunset)
+   * @param {boolean} rising
+   * @param {number} offsetMs
+   * @param {(() => Promise<void> | void)} callback
+   * @returns {number}                                Job id
    * @memberof Automation
    */
-  private async _checkQueue() {
-    const now = new Date()
-    for (const queue of this._queue) {
-      if (now >= queue.date) {
-        try {
-          await queue.callback()
-        } catch (e) {
-          Logger.error(e)
-        }
+  private _onSun(degrees: number | null, rising: boolean, offsetMs: number, callback: () => Promise<void> | void): number {
+    let location: ILocation | undefined
+    const next = (time: number) => {
+      if (!location) {
+        return Infinity
       }
+      const elevation = degrees === null ? horizonAt(location.elevation) : degrees
+      const date = nextSunTime(new Date(Math.max(time, this._scheduler.now())), location, elevation, rising, offsetMs)
+      if (!date) {
+        Logger.error(`The sun does not reach ${degrees === null ? HORIZON : degrees}º in a year`)
+        return null
+      }
+      return date.getTime()
     }
 
-    this._queue = this._queue.filter((q) => now < q.date)
+    const id = this._scheduler.add(this, Infinity, () => this._run(callback), {
+      type: 'sun',
+      description: degrees === null ? `${rising ? 'sunrise' : 'sunset'} ${offsetMs}ms` : `${degrees}º ${rising ? 'rising' : 'setting'}`,
+      next
+    })
+
+    const locate = () => {
+      this._api.getLocation()
+        .then((result) => {
+          location = result
+          const time = next(this._scheduler.now())
+          if (time === null) {
+            this._scheduler.cancel(id)
+          } else {
+            this._scheduler.reschedule(id, time)
+          }
+        })
+        .catch((e) => {
+          // Try again later, unless cancelled meanwhile
+          if (this._scheduler.has(id)) {
+            Logger.error(e)
+            this.setTimeout(locate, 60000)
+          }
+        })
+    }
+    locate()
+    return id
   }
 
   /**
-   * Verify if minute has changed and fires callbacks
+   * File of the persistent jobs of this automation
    *
-   * @return  {void}  Void
+   * @private
+   * @returns {JsonFile<{ [name: string]: IPersistentJob }>}
+   * @memberof Automation
+   */
+  private _persistentJobsFile(): JsonFile<{ [name: string]: IPersistentJob }> {
+    return Storage.getInstance().file('jobs', this.namespace, {})
+  }
+
+  /**
+   * Schedule the stored jobs, except the ones scheduled again by the constructor.
+   * Jobs missed while not running follow their policy.
+   *
+   * @private
+   * @memberof Automation
    */
-  private _checkEachMinute() {
-    const current = new Date().getMinutes()
-    if (current === this._lastMinute) {
+  private _restorePersistentJobs() {
+    if (this._destroyed) {
       return
     }
+    const file = this._persistentJobsFile()
+    const now = this._scheduler.now()
+    let skipped = false
+    for (const [name, job] of Object.entries(file.data)) {
+      if (this._persistentJobs.has(name)) {
+        continue
+      }
+      const late = now - Date.parse(job.date)
+      if (late > 0 && (job.missed === 'skip' || (typeof job.missed === 'number' && late > job.missed * 60000))) {
+        Logger.info(`Skipping job "${name}" of ${this.namespace}, missed ${Math.round(late / 1000)}s ago`)
+        delete file.data[name]
+        skipped = true
+        continue
+      }
+      this._schedulePersistentJob(name, job)
+    }
+    if (skipped) {
+      file.save().catch(Logger.error)
+    }
+  }
 
-    this._lastMinute = current
+  /**
+   * Add a persistent job to the scheduler, replacing the previous one with the same name.
+   * The job is removed from the data directory when it runs.
+   *
+   * @private
+   * @param {string} name
+   * @param {IPersistentJob} job
+   * @memberof Automation
+   */
+  private _schedulePersistentJob(name: string, job: IPersistentJob) {
+    const previous = this._persistentJobs.get(name)
+    if (previous !== undefined) {
+      this._scheduler.cancel(previous)
+    }
+    const id = this._scheduler.add(this, Date.parse(job.date), () => {
+      this._persistentJobs.delete(name)
+      const file = this._persistentJobsFile()
+      delete file.data[name]
+      file.save().catch(Logger.error)
 
-    for (const item of this._eachMinutes) {
-      item.callback().catch(Logger.error)
+      const handler = this._jobHandlers.get(job.handler)
+      if (!handler) {
+        Logger.error(`Job "${name}" of ${this.namespace}: ${job.handler} is not a registered job handler`)
+        return
+      }
+      this._run(() => handler.call(this, job.payload))
+    }, {
+      type: 'persistent',
+      description: name
+    })
+    this._persistentJobs.set(name, id)
+  }
+
+  /**
+   * Warn about the entities used by the automation that do not exist
+   *
+   * @private
+   * @param {IEntitySelector} entityId
+   * @param {string} usage          Method using them
+   * @memberof Automation
+   */
+  private _checkEntities(entityId: IEntitySelector, usage: string) {
+    this._api.checkEntities(entityId, `"${this.namespace}" ${usage}`)
+  }
+
+  /**
+   * Subscribe to state changes without the checks of the generated typings
+   *
+   * @private
+   * @param {IEntitySelector} entityId
+   * @param {IStateCallback} callback
+   * @memberof Automation
+   */
+  private _onStateChange(entityId: IEntitySelector, callback: IStateCallback) {
+    const listener = this._api.onState(entityId, callback)
+    this._stateSubscriptions.push(listener)
+  }
+
+  /**
+   * Access of the entity handles to the automation
+   *
+   * @private
+   * @returns {IEntityContext}
+   * @memberof Automation
+   */
+  private _entityContext(): IEntityContext {
+    // The states are typed by the handles, like the typed callbacks of onStateChange
+    return {
+      getState: <T extends IState>(entityId: string) => this._api.currentState(entityId) as T | undefined,
+      callService: (domain, service, entityId, data, options) => this._api.callService(domain, service, entityId, data, options),
+      onStateChange: (entityId, callback) => this._onStateChange(entityId, callback as IStateCallback),
+      waitForState: <T extends IState>(entityId: string, expected: string | ((state: T) => boolean), options?: IWaitOptions) =>
+        this.waitForState(entityId, expected as string | IStatePredicate, options) as Promise<T>
     }
   }
 
+  /**
+   * Publish the discovery config of an entity, it is destroyed with the automation
+   *
+   * @private
+   * @template E
+   * @param {E} entity
+   * @returns {E}
+   * @memberof Automation
+   */
+  private _declareMqttEntity<E extends MqttEntity<any, any>>(entity: E): E {
+    entity.declare()
+    this._mqttEntities.push(entity)
+    return entity
+  }
+
+  /**
+   * Access of the MQTT entities to the automation, with its device
+   *
+   * @private
+   * @returns {IMqttEntityContext}
+   * @memberof Automation
+   */
+  private _mqttEntityContext(): IMqttEntityContext {
+    return {
+      mqtt: this._mqtt,
+      device: {
+        identifiers: [`${this._mqtt.config.baseTopic}_${this.namespace}`],
+        name: this.title || this.namespace,
+        manufacturer: 'hass-sidecar',
+        model: 'Automation'
+      }
+    }
+  }
+
+  /**
+   * Command handler ignoring the commands received after destroying the automation
+   *
+   * @private
+   * @template T
+   * @param {IMqttCommandHandler<T>} handler
+   * @returns {IMqttCommandHandler<T>}
+   * @memberof Automation
+   */
+  private _mqttHandler<T>(handler: IMqttCommandHandler<T>): IMqttCommandHandler<T> {
+    return (value) => {
+      if (!this._destroyed) {
+        return handler(value)
+      }
+    }
+  }
+
+  /**
+   * Run a callback logging its errors, except the waits cancelled by destroy
+   *
+   * @private
+   * @param {(() => Promise<void> | void)} callback
+   * @memberof Automation
+   */
+  private _run(callback: () => Promise<void> | void) {
+    Promise.resolve()
+      .then(callback)
+      .catch((e) => {
+        if (!(e instanceof WaitCancelledError)) {
+          Logger.error(e)
+        }
+      })
+  }
+
   /**
    * Get entity state
    *
    * @protected
    * @param {string} entityId
-   * @returns
+   * @returns {Promise<IState>}            Typed by the generated typings, unless entityId is a string field or variable
    * @memberof Automation
    */
-  protected async getState (entityId: string) {
-    return this._api.getState(entityId)
+  protected getState<K extends IEntityId> (entityId: K): Promise<IStateOf<K>>
+  protected getState<T extends string> (entityId: IUncheckedString<T>): Promise<IState>
+  protected async getState(entityId: string): Promise<IState> {
+    return await this._api.getState(entityId)
+  }
+
+  /**
+   * Get the handle of an entity, with its state and typed methods for the services of its domain:
+   * light, switch, cover, climate, media_player, fan, lock, input_boolean, input_number,
+   * input_select, scene and script. Other domains get a generic Entity.
+   * Its subscriptions are removed when the automation is destroyed.
+   *
+   * @protected
+   * @param {string} entityId
+   * @returns {Entity}                 Handle, typed by IEntityRegistry or the type argument
+   * @memberof Automation
+   */
+  protected entity<K extends keyof IEntityRegistry>(entityId: K): IEntityRegistry[K]
+  protected entity<T extends Entity<any, any> = Entity>(entityId: string): T
+  protected entity(entityId: string): Entity<any, any> {
+    let handle = this._entities.get(entityId)
+    if (!handle) {
+      this._checkEntities(entityId, 'entity')
+      handle = createEntity(entityId, this._entityContext())
+      this._entities.set(entityId, handle)
+    }
+    return handle
   }
 
   /**
@@ -282,6 +1195,113 @@ abstract class Automation {
     return this._api.searchEntities(exp)
   }
 
+  /**
+   * Enabled entities of an area, including the ones of its devices without an area of their own
+   *
+   * @protected
+   * @param {string} area                  Area id, name or alias
+   * @param {string} [domain]              Only the entities of this domain, for example: light
+   * @returns {string[]}                   entity_ids, empty when the area does not exist
+   * @memberof Automation
+   */
+  protected entitiesInArea(area: string, domain?: string): string[] {
+    return this._api.entitiesInArea(area, domain)
+  }
+
+  /**
+   * Enabled entities of the areas of a floor
+   *
+   * @protected
+   * @param {string} floor                 Floor id, name or alias
+   * @param {string} [domain]              Only the entities of this domain
+   * @returns {string[]}                   entity_ids, empty when the floor does not exist
+   * @memberof Automation
+   */
+  protected entitiesOnFloor(floor: string, domain?: string): string[] {
+    return this._api.entitiesOnFloor(floor, domain)
+  }
+
+  /**
+   * Enabled entities of a device
+   *
+   * @protected
+   * @param {string} deviceId
+   * @param {string} [domain]              Only the entities of this domain
+   * @returns {string[]}                   entity_ids
+   * @memberof Automation
+   */
+  protected entitiesForDevice(deviceId: string, domain?: string): string[] {
+    return this._api.entitiesForDevice(deviceId, domain)
+  }
+
+  /**
+   * Enabled entities with a label, or whose device has it
+   *
+   * @protected
+   * @param {string} label                 Label id or name
+   * @param {string} [domain]              Only the entities of this domain
+   * @returns {string[]}                   entity_ids, empty when the label does not exist
+   * @memberof Automation
+   */
+  protected entitiesWithLabel(label: string, domain?: string): string[] {
+    return this._api.entitiesWithLabel(label, domain)
+  }
+
+  /**
+   * Area of an entity: its own one or the one of its device
+   *
+   * @protected
+   * @param {string} entityId
+   * @returns {(IAreaEntry | undefined)}
+   * @memberof Automation
+   */
+  protected areaOf(entityId: string): IAreaEntry | undefined {
+    return this._api.areaOf(entityId)
+  }
+
+  /**
+   * Device of an entity, with its manufacturer, model and area
+   *
+   * @protected
+   * @param {string} entityId
+   * @returns {(IDeviceEntry | undefined)}
+   * @memberof Automation
+   */
+  protected deviceOf(entityId: string): IDeviceEntry | undefined {
+    return this._api.deviceOf(entityId)
+  }
+
+  /**
+   * Get the recorded states of some entities in a period, for example to know how long something was on
+   *
+   * @protected
+   * @param {(string | string[])} entityIds
+   * @param {Date} start
+   * @param {Date} [end]                   Now by default
+   * @param {IHistoryOptions} [options]    minimalResponse and significantChangesOnly
+   * @returns {Promise<IHistory>}          States of each entity, oldest first
+   * @memberof Automation
+   */
+  protected async getHistory<T extends string>(entityIds: IEntityId | IUncheckedString<T> | (IEntityId | IUncheckedString<T>)[], start: Date, end?: Date, options?: IHistoryOptions): Promise<IHistory> {
+    this._checkEntities(entityIds, 'getHistory')
+    return this._api.getHistory(entityIds, start, end, options)
+  }
+
+  /**
+   * Get the long term statistics of a period: mean, min and max of measurements, sum and change of meters
+   *
+   * @protected
+   * @param {(string | string[])} statisticIds
+   * @param {IStatisticsPeriod} period     5minute, hour, day, week or month
+   * @param {Date} start
+   * @param {Date} [end]                   Now by default
+   * @returns {Promise<IStatistics>}       Periods of each statistic, oldest first
+   * @memberof Automation
+   */
+  protected async getStatistics(statisticIds: string | string[], period: IStatisticsPeriod, start: Date, end?: Date): Promise<IStatistics> {
+    return this._api.getStatistics(statisticIds, period, start, end)
+  }
+
   /**
    * Call service
    *
@@ -289,12 +1309,20 @@ abstract class Automation {
    * @param {string} domain                Domain, for example: light
    * @param {string} service               Service, for example: turn_on
    * @param {(string | null)} entityId     Entity id
-   * @param {*} data                       Attributes (optional)
-   * @returns {Promise<any>}
+   * @param {*} data                       Attributes (optional), typed by the generated typings
+   *                                       unless the service is a string field or variable
+   * @param {IRequestOptions} [options]    Timeout and maximum time queued while disconnected
+   * @returns {Promise<any>}                Rejected with a RequestError (see lib/errors)
    * @memberof Automation
    */
-  protected async callService (domain: string, service: string, entityId: string | null, data: any): Promise<any> {
-    return this._api.callService(domain, service, entityId, data)
+  protected callService<D extends IServiceDomain, S extends IServiceName<D>> (domain: D, service: S, entityId: IEntityId | null, data: IServiceData<D, S>, options?: IRequestOptions): Promise<any>
+  protected callService<D extends IServiceDomain, S extends IServiceName<D>, E extends string> (domain: D, service: S, entityId: IUncheckedString<E>, data: IServiceData<D, S>, options?: IRequestOptions): Promise<any>
+  protected callService<D extends IServiceDomain, S extends string, E extends string> (domain: D, service: IUncheckedString<S>, entityId: IEntityId | IUncheckedString<E> | null, data: any, options?: IRequestOptions): Promise<any>
+  protected async callService(domain: string, service: string, entityId: string | null, data: any, options?: IRequestOptions): Promise<any> {
+    if (entityId) {
+      this._checkEntities(entityId, `callService ${domain}.${service}`)
+    }
+    return this._api.callService(domain, service, entityId, data, options)
   }
 
   /**
@@ -307,6 +1335,7 @@ abstract class Automation {
    * @memberof Automation
    */
   protected async lightTurnOn(entityId: string, data: any): Promise<any> {
+    this._checkEntities(entityId, 'lightTurnOn')
     return this._api.callService('light', 'turn_on', entityId, data)
   }
 
@@ -320,6 +1349,7 @@ abstract class Automation {
    * @memberof Automation
    */
   protected async lightTurnOff(entityId: string, data: any): Promise<any> {
+    this._checkEntities(entityId, 'lightTurnOff')
     return this._api.callService('light', 'turn_off', entityId, data)
   }
 
@@ -332,6 +1362,7 @@ abstract class Automation {
    * @memberof Automation
    */
   protected async lightToggle(entityId: string): Promise<any> {
+    this._checkEntities(entityId, 'lightToggle')
     return this._api.callService('light', 'toggle', entityId, {})
   }
 
@@ -344,6 +1375,7 @@ abstract class Automation {
    * @memberof Automation
    */
   protected async switchTurnOn(entityId: string): Promise<any> {
+    this._checkEntities(entityId, 'switchTurnOn')
     return this._api.callService('switch', 'turn_on', entityId, {})
   }
 
@@ -356,6 +1388,7 @@ abstract class Automation {
    * @memberof Automation
    */
   protected async switchTurnOff(entityId: string): Promise<any> {
+    this._checkEntities(entityId, 'switchTurnOff')
     return this._api.callService('switch', 'turn_off', entityId, {})
   }
 
@@ -368,6 +1401,7 @@ abstract class Automation {
    * @memberof Automation
    */
   protected async switchToggle(entityId: string): Promise<any> {
+    this._checkEntities(entityId, 'switchToggle')
     return this._api.callService('switch', 'toggle', entityId, {})
   }
 
@@ -377,26 +1411,24 @@ abstract class Automation {
    * @protected
    * @param {ICallback} callback         Callback function
    * @param {number} milliseconds        Milliseconds to wait until run
-   * @returns {NodeJS.Timeout}           ID if the timer
+   * @returns {number}                   ID if the timer
    * @memberof Automation
    */
-  protected setTimeout (callback: ICallback, milliseconds: number): NodeJS.Timeout {
-    const id = setTimeout(callback, milliseconds)
-    this._timeouts.push(id)
-    return id
+  protected setTimeout (callback: ICallback, milliseconds: number): number {
+    return this._scheduler.add(this, this._scheduler.now() + Math.max(milliseconds, 0), () => this._run(callback), {
+      type: 'timeout'
+    })
   }
 
   /**
    * Clear a timeout
    *
    * @protected
-   * @param {NodeJS.Timeout} id   Timeout id
+   * @param {number} id   Timeout id
    * @memberof Automation
    */
-  protected clearTimeout (id: NodeJS.Timeout) {
-    clearTimeout(id)
-    const idx = this._timeouts.indexOf(id)
-    this._timeouts.splice(idx, 1)
+  protected clearTimeout (id: number) {
+    this._scheduler.cancel(id)
   }
 
   /**
@@ -405,59 +1437,71 @@ abstract class Automation {
    * @protected
    * @param {ICallback} callback         Callback function
    * @param {number} milliseconds        Milliseconds of the interval
-   * @returns {NodeJS.Timeout}           ID of the interval
+   * @returns {number}                   ID of the interval
    * @memberof Automation
    */
-  protected setInterval (callback: ICallback, milliseconds: number): NodeJS.Timeout {
-    const id = setInterval(callback, milliseconds)
-    this._intervals.push(id)
-    return id
+  protected setInterval (callback: ICallback, milliseconds: number): number {
+    // Like setInterval, at least 1ms
+    const interval = Math.max(milliseconds, 1)
+    return this._scheduler.add(this, this._scheduler.now() + interval, () => this._run(callback), {
+      type: 'interval',
+      description: `${interval}ms`,
+      next: () => this._scheduler.now() + interval
+    })
   }
 
   /**
    * Clear interval
    *
    * @protected
-   * @param {NodeJS.Timeout} id       ID of the interval
+   * @param {number} id       ID of the interval
    * @memberof Automation
    */
-  protected clearInterval (id: NodeJS.Timeout) {
-    clearInterval(id)
-    const idx = this._intervals.indexOf(id)
-    this._intervals.splice(idx, 1)
+  protected clearInterval (id: number) {
+    this._scheduler.cancel(id)
   }
 
   /**
    * Destroy method
    * All timeout, intervals, queues and subscriptions are deleted
    *
+   * @param {boolean} [shutdown=false]     Destroyed because the sidecar exits, not reloaded:
+   *                                       the MQTT entities are marked unavailable instead of removed
    * @memberof Automation
    */
-  destroy () {
-    // Destroy all timeouts
-    for (let i = this._timeouts.length - 1; i >= 0; i--) {
-      Logger.log(`Destroying timeout ${this._timeouts[i]}`)
-      this.clearTimeout(this._timeouts[i])
-    }
+  destroy (shutdown: boolean = false) {
+    this._destroyed = true
 
-    // Destroy all intervals
-    for (let i = this._intervals.length - 1; i >= 0; i--) {
-      Logger.log(`Destroying interval ${this._intervals[i]}`)
-      this.clearInterval(this._intervals[i])
+    // Stop waiting for states
+    for (const cancel of Array.from(this._waits)) {
+      cancel()
     }
 
-    // Destroy all queues
-    for (let i = this._queue.length - 1; i >= 0; i--) {
-      Logger.log(`Destroying queue ${this._queue[i]}`)
-      this.clearRunAt(this._queue[i].id)
+    // Destroy all timeouts, intervals, runAt, schedules and sun events
+    // Persistent jobs are kept in the data directory for the next load
+    const jobs = this._scheduler.cancelOwner(this)
+    this._persistentJobs.clear()
+    Logger.log(`Destroyed ${jobs} scheduled jobs`)
+
+    // Stop watching the store, its values are kept
+    this.store.close()
+
+    // Mark the MQTT entities unavailable, or remove them
+    for (const entity of this._mqttEntities) {
+      try {
+        entity.destroy(shutdown)
+      } catch (e) {
+        Logger.error(e)
+      }
     }
+    this._mqttEntities = []
 
     // Unsubscribe mqtt
-    Array.from(this._mqttSubscriptions).forEach((value) => {
-      Logger.log(`Unsubscribing from mqtt topic: ${value[0]} with id ${value[1]}`)
-      this._mqtt.unsubscribe(value[0], value[1])
-    })
-    this._mqttSubscriptions = new Map()
+    for (const sub of this._mqttSubscriptions) {
+      Logger.log(`Unsubscribing from mqtt topic: ${sub.topic} with id ${sub.id}`)
+      this._mqtt.unsubscribe(sub.topic, sub.id)
+    }
+    this._mqttSubscriptions = []
 
     // Unsubscribe state changes and automation subscriptions
     for (const sub of this._stateSubscriptions) {
@@ -474,9 +1518,17 @@ abstract class Automation {
         Logger.error(e)
       }
     }
-
-    // Destroy each minutes callbacks
-    this._eachMinutes = []
+    for (const sub of this._eventSubscriptions) {
+      try {
+        this._api.clearOnEvent(sub.eventType, sub.id)
+      } catch (e) {
+        Logger.error(e)
+      }
+    }
+    for (const id of Array.from(this._templateSubscriptions)) {
+      this._api.clearOnTemplate(id).catch(Logger.error)
+    }
+    this._templateSubscriptions.clear()
 
     Logger.log(`Destroyed ${this.title}`)
   }
@@ -0,0 +1,31 @@
+import { IState } from './IState'
+
+export type ICloseCallback = () => void
+
+export type IRequestOptions = {
+  // Time to wait for the response once sent
+  timeout?: number
+  // Time to wait for a connection before discarding the request
+  maxAge?: number
+}
+
+/**
+ * Operations the API needs from a Home Assistant connection.
+ * Implemented by WebsocketConnection and by the fake connection of the test kit.
+ */
+export interface IConnection {
+  addEventListener (event: string, callback: (message: any) => void): IConnection
+  removeEventListener (event: string, callback: (message: any) => void): IConnection
+  getStates (options?: IRequestOptions): Promise<IState[]>
+  getConfig (options?: IRequestOptions): Promise<any>
+  getServices (options?: IRequestOptions): Promise<any>
+  listRegistry (registry: string, options?: IRequestOptions): Promise<any[]>
+  getHistory (query: any, options?: IRequestOptions): Promise<any>
+  getStatistics (query: any, options?: IRequestOptions): Promise<any>
+  subscribeEvent (event: string, callback: (message: any) => void): Promise<number>
+  subscribeTemplate (template: string, variables: any, callback: (message: any) => void): Promise<number>
+  unsubscribe (subscriptionId: number): Promise<void>
+  fireEvent (eventType: string, data: any, options?: IRequestOptions): Promise<any>
+  callService (domain: string, service: string, attributes: any, options?: IRequestOptions): Promise<any>
+  onClose (callback: ICloseCallback): IConnection
+}
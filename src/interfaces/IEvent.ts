@@ -0,0 +1,16 @@
+export interface IEvent {
+  event_type: string
+  data: any
+  origin: string
+  time_fired: Date
+  context: {
+    id: string
+    parent_id: string
+    user_id: string
+  }
+}
+
+// Fields that event data must contain (nested objects are matched partially), or a predicate
+export type IEventFilter = { [key: string]: any } | ((event: IEvent) => boolean)
+
+export type IEventCallback = (event: IEvent) => void
@@ -0,0 +1,32 @@
+import { IState } from './IState'
+
+export type IHistoryOptions = {
+  // Only the state value and last_changed of the states between the first and the last one
+  minimalResponse?: boolean
+  // Skip the changes of attributes only, true by default like in Home Assistant
+  significantChangesOnly?: boolean
+}
+
+// States of each entity_id, oldest first. The first one is the state at the start of the period
+export type IHistory = { [entityId: string]: IState[] }
+
+export type IStatisticsPeriod = '5minute' | 'hour' | 'day' | 'week' | 'month'
+
+/**
+ * Statistics of a period, the fields depend on the statistic:
+ * mean, min and max for measurements, state, sum and change for meters
+ */
+export interface IStatistic {
+  start: Date
+  end: Date
+  mean?: number | null
+  min?: number | null
+  max?: number | null
+  state?: number | null
+  sum?: number | null
+  change?: number | null
+  last_reset?: Date | null
+}
+
+// Periods of each statistic_id, oldest first
+export type IStatistics = { [statisticId: string]: IStatistic[] }
@@ -0,0 +1,63 @@
+import Entity, { IEntityState } from '../entities/Entity'
+import { IState, IStateDiff } from './IState'
+
+// tslint:disable:no-empty-interface
+
+/*
+ * Registries of the entities and services of a Home Assistant instance.
+ * They are empty here and filled by declaration merging in the typings generated
+ * with "npm run codegen". While they are empty, entity_ids, domains, services
+ * and their data are plain strings and any.
+ */
+
+/**
+ * Handle class of each entity_id, for example: 'light.kitchen': LightEntity
+ */
+export interface IEntityRegistry {
+}
+
+/**
+ * entity_ids of each domain, for example: light: 'light.kitchen' | 'light.porch'
+ */
+export interface IEntityIds {
+}
+
+/**
+ * Data of each service by domain and name, for example: light: { turn_on: { transition?: number } }
+ */
+export interface IServiceRegistry {
+}
+
+// Known entity_id
+export type IEntityId = [keyof IEntityRegistry] extends [never] ? string : Extract<keyof IEntityRegistry, string>
+
+// Known domain
+export type IDomain = [keyof IEntityIds] extends [never] ? string : Extract<keyof IEntityIds, string>
+
+// entity_ids of a domain
+export type IDomainEntityId<D extends string> = D extends keyof IEntityIds ? IEntityIds[D] : string
+
+// Domain with services
+export type IServiceDomain = [keyof IServiceRegistry] extends [never] ? string : Extract<keyof IServiceRegistry, string>
+
+// Service of a domain
+export type IServiceName<D extends string> = D extends keyof IServiceRegistry ? Extract<keyof IServiceRegistry[D], string> : string
+
+// Data of a service
+export type IServiceData<D extends string, S extends string> =
+  D extends keyof IServiceRegistry ? (S extends keyof IServiceRegistry[D] ? IServiceRegistry[D][S] : any) : any
+
+// State of an entity, with the types of its handle
+export type IStateOf<K extends string> =
+  K extends keyof IEntityRegistry ? (IEntityRegistry[K] extends Entity<infer S, infer A> ? IEntityState<S, A> : IState) : IState
+
+// A value typed as a plain string, like a class field or a variable, is accepted unchecked.
+// String literals must be known
+export type IUncheckedString<T extends string> = string extends T ? T : never
+
+// entity_id, list of entity_ids, domain or regular expression. Other strings, like glob patterns,
+// take the untyped overload of onStateChange and are checked when the automation is loaded
+export type ITypedEntitySelector<K extends IEntityId> = K | K[] | IDomain | RegExp
+
+export type ITypedStateCallback<K extends IEntityId> =
+  (newState: IStateOf<K>, oldState: IStateOf<K> | null, diff: IStateDiff) => void
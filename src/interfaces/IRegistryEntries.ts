@@ -0,0 +1,59 @@
+/*
+ * Entries of the entity, device, area, floor and label registries of Home Assistant,
+ * as returned by config/<registry>_registry/list. Only the fields used to organise
+ * the entities are typed, the rest are kept.
+ */
+
+export type IRegistryName = 'entity' | 'device' | 'area' | 'floor' | 'label'
+
+export type IEntityEntry = {
+  entity_id: string
+  id: string
+  platform: string
+  name: string | null
+  original_name?: string | null
+  // Area of the entity, when it is not the one of its device
+  area_id: string | null
+  device_id: string | null
+  labels: string[]
+  disabled_by: string | null
+  hidden_by: string | null
+  entity_category: string | null
+  [field: string]: any
+}
+
+export type IDeviceEntry = {
+  id: string
+  name: string | null
+  name_by_user: string | null
+  manufacturer: string | null
+  model: string | null
+  area_id: string | null
+  labels: string[]
+  disabled_by: string | null
+  [field: string]: any
+}
+
+export type IAreaEntry = {
+  area_id: string
+  name: string
+  floor_id: string | null
+  labels: string[]
+  aliases: string[]
+  [field: string]: any
+}
+
+export type IFloorEntry = {
+  floor_id: string
+  name: string
+  level: number | null
+  aliases: string[]
+  [field: string]: any
+}
+
+export type ILabelEntry = {
+  label_id: string
+  name: string
+  color: string | null
+  [field: string]: any
+}
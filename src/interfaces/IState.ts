@@ -11,4 +11,36 @@ export interface IState {
   }
 }
 
-export type IStateCallback = (newState: IState, oldState: IState | null) => void
\ No newline at end of file
+export type IValueChange<T> = {
+  // Undefined when the value did not exist
+  from: T | undefined
+  to: T | undefined
+}
+
+export type IStateDiff = {
+  // Set only when the state value changed
+  state?: IValueChange<string>
+  // Changed, added and removed attributes
+  attributes: { [name: string]: IValueChange<any> }
+}
+
+export type IStateCallback = (newState: IState, oldState: IState | null, diff: IStateDiff) => void
+
+export type IAttributeCallback = (changes: { [name: string]: IValueChange<any> }, newState: IState) => void
+
+export type IStatePredicate = (state: IState) => boolean
+
+export type IWaitOptions = {
+  // Reject after this time without reaching the state
+  timeoutMs?: number
+}
+
+/**
+ * Entities watched by a state listener:
+ *  - entity_id: light.kitchen
+ *  - domain: light
+ *  - glob pattern, "*" matches any text and "?" one character: binary_sensor.*_door
+ *  - regular expression tested against the entity_id
+ *  - list of entity_ids
+ */
+export type IEntitySelector = string | RegExp | string[]
@@ -0,0 +1,168 @@
+import TestKit from '../testing/TestKit'
+import { IState } from '../interfaces/IState'
+
+describe('API', () => {
+  let kit: TestKit
+
+  beforeEach(async () => {
+    kit = new TestKit({
+      states: [
+        { entity_id: 'light.kitchen', state: 'on' },
+        { entity_id: 'light.garden', state: 'off' }
+      ]
+    })
+    await kit.start()
+  })
+
+  afterEach(async () => {
+    await kit.teardown()
+  })
+
+  describe('after a reconnection', () => {
+    let changes: [string, string | null, string][]
+
+    beforeEach(() => {
+      changes = []
+      kit.api.onState(/^light\./, (newState: IState, oldState: IState | null) => {
+        changes.push([newState.entity_id, oldState ? oldState.state : null, newState.state])
+      })
+    })
+
+    it('notifies the states changed while disconnected', async () => {
+      kit.seedState('light.kitchen', 'off')
+      await kit.reconnect()
+
+      expect(changes).toEqual([['light.kitchen', 'on', 'off']])
+    })
+
+    it('notifies the entities created while disconnected with a null old state', async () => {
+      kit.seedState('light.porch', 'on')
+      await kit.reconnect()
+
+      expect(changes).toEqual([['light.porch', null, 'on']])
+      expect(kit.api.currentState('light.porch')!.state).toBe('on')
+    })
+
+    it('drops the entities removed while disconnected without notifying them', async () => {
+      kit.connection.states.delete('light.garden')
+      await kit.reconnect()
+
+      expect(changes).toEqual([])
+      expect(kit.api.currentState('light.garden')).toBeUndefined()
+    })
+  })
+
+  describe('getHistory', () => {
+    const start = new Date('2021-06-21T18:00:00Z')
+
+    it('parses the compressed states of the response', async () => {
+      const getHistory = jest.spyOn(kit.connection, 'getHistory').mockResolvedValue({
+        'light.kitchen': [
+          { s: 'on', a: { brightness: 255 }, lu: 1624298400.5, c: '01F8X' },
+          { s: 'off', a: {}, lc: 1624300200, lu: 1624300260, c: { id: '01F9Y', parent_id: null, user_id: 'abc' } },
+          { s: 'on', lu: 1624302000 }
+        ]
+      })
+
+      const history = await kit.api.getHistory(['light.kitchen', 'light.garden'], start)
+
+      expect(getHistory).toHaveBeenCalledWith(expect.objectContaining({
+        entity_ids: ['light.kitchen', 'light.garden'],
+        start_time: '2021-06-21T18:00:00.000Z',
+        end_time: undefined,
+        minimal_response: false,
+        significant_changes_only: true
+      }))
+      expect(history).toEqual({
+        'light.kitchen': [
+          {
+            entity_id: 'light.kitchen',
+            state: 'on',
+            attributes: { brightness: 255 },
+            last_changed: new Date('2021-06-21T18:00:00.500Z'),
+            last_updated: new Date('2021-06-21T18:00:00.500Z'),
+            context: { id: '01F8X', parent_id: '', user_id: '' }
+          },
+          {
+            entity_id: 'light.kitchen',
+            state: 'off',
+            attributes: {},
+            last_changed: new Date('2021-06-21T18:30:00Z'),
+            last_updated: new Date('2021-06-21T18:31:00Z'),
+            context: { id: '01F9Y', parent_id: null, user_id: 'abc' }
+          },
+          {
+            entity_id: 'light.kitchen',
+            state: 'on',
+            attributes: {},
+            last_changed: new Date('2021-06-21T19:00:00Z'),
+            last_updated: new Date('2021-06-21T19:00:00Z'),
+            context: { id: '', parent_id: '', user_id: '' }
+          }
+        ],
+        'light.garden': []
+      })
+      getHistory.mockRestore()
+    })
+
+    it('sends the end and the options of the query', async () => {
+      const getHistory = jest.spyOn(kit.connection, 'getHistory').mockResolvedValue(null)
+
+      const history = await kit.api.getHistory('light.kitchen', start, new Date('2021-06-21T20:00:00Z'), {
+        minimalResponse: true,
+        significantChangesOnly: false
+      })
+
+      expect(getHistory).toHaveBeenCalledWith(expect.objectContaining({
+        entity_ids: ['light.kitchen'],
+        end_time: '2021-06-21T20:00:00.000Z',
+        minimal_response: true,
+        significant_changes_only: false
+      }))
+      expect(history).toEqual({ 'light.kitchen': [] })
+      getHistory.mockRestore()
+    })
+  })
+
+  describe('getStatistics', () => {
+    it('parses the dates of the periods, received as milliseconds or ISO strings', async () => {
+      const getStatistics = jest.spyOn(kit.connection, 'getStatistics').mockResolvedValue({
+        'sensor.temperature': [
+          { start: 1624298400000, end: 1624302000000, mean: 21.5, min: 20.9, max: 22.1 }
+        ],
+        'sensor.energy': [
+          { start: '2021-06-21T18:00:00+00:00', end: '2021-06-21T19:00:00+00:00', state: 12.5, sum: 3.5, change: 0.5, last_reset: 1624233600000 },
+          { start: '2021-06-21T19:00:00+00:00', end: '2021-06-21T20:00:00+00:00', state: 13, sum: 4, change: 0.5, last_reset: null }
+        ]
+      })
+
+      const statistics = await kit.api.getStatistics(['sensor.temperature', 'sensor.energy', 'sensor.power'], 'hour',
+        new Date('2021-06-21T18:00:00Z'), new Date('2021-06-21T20:00:00Z'))
+
+      expect(getStatistics).toHaveBeenCalledWith({
+        statistic_ids: ['sensor.temperature', 'sensor.energy', 'sensor.power'],
+        period: 'hour',
+        start_time: '2021-06-21T18:00:00.000Z',
+        end_time: '2021-06-21T20:00:00.000Z'
+      })
+      expect(statistics).toEqual({
+        'sensor.temperature': [
+          { start: new Date('2021-06-21T18:00:00Z'), end: new Date('2021-06-21T19:00:00Z'), mean: 21.5, min: 20.9, max: 22.1 }
+        ],
+        'sensor.energy': [
+          {
+            start: new Date('2021-06-21T18:00:00Z'),
+            end: new Date('2021-06-21T19:00:00Z'),
+            state: 12.5,
+            sum: 3.5,
+            change: 0.5,
+            last_reset: new Date('2021-06-21T00:00:00Z')
+          },
+          { start: new Date('2021-06-21T19:00:00Z'), end: new Date('2021-06-21T20:00:00Z'), state: 13, sum: 4, change: 0.5, last_reset: null }
+        ],
+        'sensor.power': []
+      })
+      getStatistics.mockRestore()
+    })
+  })
+})
@@ -1,12 +1,192 @@
 import websocketConnection from "./websocketConnection"
-import { IState, IStateCallback } from "../interfaces/IState"
+import { IEntitySelector, IState, IStateCallback } from "../interfaces/IState"
+import { IConnection, IRequestOptions } from "../interfaces/IConnection"
+import { IEvent, IEventCallback, IEventFilter } from "../interfaces/IEvent"
+import { IHistory, IHistoryOptions, IStatistic, IStatistics, IStatisticsPeriod } from "../interfaces/IHistory"
+import { IAreaEntry, IDeviceEntry, IRegistryName } from "../interfaces/IRegistryEntries"
 import path from 'path';
+import https from 'https';
 import chokidar from 'chokidar'
 import fetch from 'node-fetch';
 import { Automation } from "../interfaces/Automation";
 
 import findAutomations from './findAutomations'
 import Logger from './Logger';
+import { closestMatches, diffStates } from './helpers';
+import { EntityNotFoundError, HomeAssistantError, TemplateError } from './errors';
+import { getHomeAssistantConfig, IHomeAssistantConfig } from './config';
+import { ILocation } from './sun';
+import Registries, { REGISTRY_NAMES } from './Registries';
+
+// What the API uses of fetch for the REST calls, so the test kit can replace it
+export type IFetch = (url: string, init: { method: string, agent?: https.Agent, headers: { [name: string]: string }, body: string }) =>
+  Promise<{ ok: boolean, status: number, statusText: string }>
+
+const AUTOMATIONS_DIR = path.resolve(path.join(__dirname, '..', 'automations'))
+
+type IAPIOptions = {
+  // Connection with Home Assistant, a websocket connection is created when omitted
+  connection?: IConnection
+  // Function used for the REST calls
+  fetch?: IFetch
+  // Load the automations folder once the states are synced
+  autoload?: boolean
+}
+
+type IEventListener = {
+  id: number
+  filter?: IEventFilter
+  callback: IEventCallback
+}
+
+// Registry reloaded by each *_registry_updated event
+const REGISTRY_EVENTS: Map<string, IRegistryName> = new Map(REGISTRY_NAMES.map((name): [string, IRegistryName] => [`${name}_registry_updated`, name]))
+
+// Events the API always listens to
+const INTERNAL_EVENTS = ['state_changed', 'automation_triggered', ...Array.from(REGISTRY_EVENTS.keys())]
+
+type IStateChange = {
+  newState: IState
+  oldState: IState | null
+}
+
+type IStateListener = {
+  id: number
+  callback: IStateCallback
+}
+
+type IPatternListener = IStateListener & {
+  pattern: RegExp
+}
+
+type IParsedSelector =
+  { type: 'entities', entityIds: string[] } |
+  { type: 'domain', domain: string } |
+  { type: 'pattern', pattern: RegExp }
+
+/**
+ * Classify an entity selector.
+ * Strings with "*" or "?" are glob patterns, strings without "." are domains.
+ *
+ * @param {IEntitySelector} selector
+ * @returns {IParsedSelector}
+ */
+const parseSelector = (selector: IEntitySelector): IParsedSelector => {
+  if (Array.isArray(selector)) {
+    return { type: 'entities', entityIds: Array.from(new Set(selector)) }
+  }
+  if (selector instanceof RegExp) {
+    // Global and sticky expressions keep state between tests
+    return { type: 'pattern', pattern: new RegExp(selector.source, selector.flags.replace(/[gy]/g, '')) }
+  }
+  if (/[*?]/.test(selector)) {
+    const source = selector.split('').map((c) => {
+      if (c === '*') {
+        return '.*'
+      }
+      return c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }).join('')
+    return { type: 'pattern', pattern: new RegExp(`^${source}$`) }
+  }
+  if (!selector.includes('.')) {
+    return { type: 'domain', domain: selector }
+  }
+  return { type: 'entities', entityIds: [selector] }
+}
+
+/**
+ * Remove a listener from a map of listener lists, deleting empty lists
+ *
+ * @param {Map<string, IStateListener[]>} map
+ * @param {string} key
+ * @param {number} id
+ */
+const removeListener = (map: Map<string, IStateListener[]>, key: string, id: number) => {
+  const listeners = map.get(key)
+  if (listeners) {
+    const remaining = listeners.filter(l => l.id !== id)
+    if (remaining.length === 0) {
+      map.delete(key)
+    } else {
+      map.set(key, remaining)
+    }
+  }
+}
+
+/**
+ * Convert the dates received from Home Assistant
+ *
+ * @param {IState} state   State as received
+ * @returns {IState}       State with Date objects
+ */
+const parseState = (state: IState): IState => {
+  state.last_changed = new Date(state.last_changed)
+  state.last_updated = new Date(state.last_updated)
+  return state
+}
+
+/**
+ * Convert a state of the compressed history format: s (state), a (attributes),
+ * lc and lu (last_changed and last_updated in seconds, lc omitted when equal)
+ *
+ * @param {string} entityId
+ * @param {*} compressed     State as received
+ * @returns {IState}
+ */
+const parseHistoryState = (entityId: string, compressed: any): IState => {
+  const lastUpdated = new Date(compressed.lu * 1000)
+  const context = compressed.c
+  return {
+    entity_id: entityId,
+    state: compressed.s,
+    attributes: compressed.a || {},
+    last_changed: compressed.lc !== undefined ? new Date(compressed.lc * 1000) : lastUpdated,
+    last_updated: lastUpdated,
+    context: typeof context === 'object' && context ? context : { id: context || '', parent_id: '', user_id: '' }
+  }
+}
+
+/**
+ * Convert the dates of a statistics period, received as milliseconds or ISO strings
+ *
+ * @param {*} statistic      Statistic as received
+ * @returns {IStatistic}
+ */
+const parseStatistic = (statistic: any): IStatistic => {
+  const parsed: IStatistic = { ...statistic, start: new Date(statistic.start), end: new Date(statistic.end) }
+  if (statistic.last_reset !== undefined && statistic.last_reset !== null) {
+    parsed.last_reset = new Date(statistic.last_reset)
+  }
+  return parsed
+}
+
+/**
+ * Convert the dates received from Home Assistant
+ *
+ * @param {*} event        Event as received
+ * @returns {IEvent}       Event with Date objects
+ */
+const parseEvent = (event: any): IEvent => {
+  return { ...event, time_fired: new Date(event.time_fired) }
+}
+
+/**
+ * Check if the event matches the filter.
+ * Object filters match when every field is equal in the event data, nested objects are matched partially.
+ *
+ * @param {*} data                 Data to check
+ * @param {*} filter               Expected values
+ * @returns {boolean}
+ */
+const matchesFilter = (data: any, filter: any): boolean => {
+  if (filter === null || typeof filter !== 'object' || Array.isArray(filter)) {
+    return JSON.stringify(data) === JSON.stringify(filter)
+  }
+  if (data === null || typeof data !== 'object') {
+    return false
+  }
+  return Object.keys(filter).every((key) => matchesFilter(data[key], filter[key]))
+}
 
 /**
  * Class to manage all interactions with the backend
@@ -14,50 +194,99 @@ import Logger from './Logger';
  * @class API
  */
 class API {
-  private host = process.env.HA_HOST || ''
-  private token = process.env.HA_TOKEN || '';
+  private _config: IHomeAssistantConfig = getHomeAssistantConfig()
+  // Agent for REST calls, only needed with TLS
+  private _agent?: https.Agent
 
   private _automations: Map<string, Automation> = new Map()
-  private _connection: websocketConnection
+  private _connection: IConnection
+  private _fetch: IFetch
+  private _registries: Registries
+  private _autoload: boolean
+  private _subscribed: boolean = false
+  private _synced: boolean = false
   private _states: Map<string, IState> = new Map()
-  private _stateListeners: Map<string, { id: number, callback: IStateCallback }[]> = new Map()
+  private _stateListeners: Map<string, IStateListener[]> = new Map()
+  private _domainListeners: Map<string, IStateListener[]> = new Map()
+  private _patternListeners: IPatternListener[] = []
+  // Pattern listeners matching each entity, computed on its first change
+  private _patternMatches: Map<string, IPatternListener[]> = new Map()
   private _automationListeners: Map<string, { id: number, callback: () => void }[]> = new Map()
+  private _eventListeners: Map<string, IEventListener[]> = new Map()
+  // One subscription per event type, shared by all its listeners
+  private _eventSubscriptions: Map<string, Promise<number>> = new Map()
+  private _listenerId: number = 0
+  private _location?: Promise<ILocation>
+  // Automation file being loaded, relative to the automations folder and without extension
+  private _loadingAutomation?: string
+  // Entities to check once the states are synced
+  private _pendingChecks: { entityIds: string[], source: string }[] = []
+  // Entities already reported as missing, by source
+  private _missingReported: Set<string> = new Set()
 
-  private static _instance: API
+  private static _instance: API | undefined
 
   /**
    * Creates an instance of API.
    *
+   * @param {IAPIOptions} [options]   Connection and loading options (used by the test kit)
    * @memberof API
    */
-  public constructor() {
+  public constructor(options: IAPIOptions = {}) {
     // Initiate the websocket connection
-    this._connection = new websocketConnection(this.host, this.token)
+    const { websocketUrl, restUrl, token, ca, rejectUnauthorized, supervisor } = this._config
+    if (supervisor) {
+      Logger.info('Running as Home Assistant add-on')
+    }
+    this._connection = options.connection || new websocketConnection(websocketUrl, token, { ca, rejectUnauthorized })
+    if (/^https:/.test(restUrl)) {
+      this._agent = new https.Agent({ ca, rejectUnauthorized })
+    }
+    this._fetch = options.fetch || fetch
+    this._registries = new Registries(this._connection)
+    this._autoload = options.autoload !== false
 
-    // When the connection is ready, sync all states
+    // When the connection is ready, sync all states and registries
     this._connection.addEventListener('ready', () => {
       Logger.info('Connection ready')
 
-      this._syncStates()
-        .then(() => {
+      // Subscriptions are kept by the connection across reconnections
+      if (!this._subscribed) {
+        this._subscribed = true
+        for (const eventType of INTERNAL_EVENTS) {
+          this._subscribeEventType(eventType)
+        }
+      }
+
+      const firstSync = !this._synced
+      Promise.all([this._syncStates(), this._registries.sync()])
+        .then(([changes]) => {
           Logger.info('States synced')
+          this._synced = true
+
+          const checks = this._pendingChecks
+          this._pendingChecks = []
+          for (const check of checks) {
+            this._checkEntities(check.entityIds, check.source)
+          }
 
-          // Loading all automations when states are synced
-          this._bootstrap()
+          if (firstSync) {
+            // Loading all automations when states are synced
+            if (this._autoload) {
+              this._bootstrap()
+            }
+            return
+          }
+
+          // Notify the changes missed while the connection was down
+          for (const change of changes) {
+            Logger.debug(`State of ${change.newState.entity_id} changed while disconnected`)
+            this._dispatchStateChange(change.newState, change.oldState)
+          }
         })
         .catch((error) => {
           Logger.error(error)
         })
-
-      // Main function to watch states changes
-      this._onStateChange()
-      // Watch for automation triggers
-      this._onAutomationTrigger()
-    })
-
-    // If connection closes, unload all automations
-    this._connection.onClose(() => {
-      this._unload()
     })
   }
 
@@ -76,32 +305,53 @@ class API {
     return API._instance
   }
 
+  /**
+   * Replace the singleton instance, so automations created afterwards use it.
+   * Passing undefined forces a new instance on the next getInstance call.
+   *
+   * @static
+   * @param {API} [instance]   Instance to use
+   * @memberof API
+   */
+  public static setInstance(instance?: API) {
+    API._instance = instance
+  }
+
   /**
    * Subscribe to state changes on entity
    *
-   * @param {string} entityId              entity_id to watch for changes
+   * @param {IEntitySelector} entityId     entity_id, domain, glob, RegExp or list of entity_ids to watch for changes
    * @param {IStateCallback} callback      callback function
    * @returns                listenerInfo  Object with the listener information
    * @memberof API
    */
-  public onState(entityId: string, callback: IStateCallback) {
-    const id = Math.floor(Math.random() * 10000) + new Date().getTime()
+  public onState(entityId: IEntitySelector, callback: IStateCallback) {
+    const id = ++this._listenerId
     const listenerInfo = {
       id,
       entityId
     }
 
-    // Store this callback to the _stateListeners map
-    if (!this._stateListeners.has(entityId)) {
-      this._stateListeners.set(entityId, [{ id, callback }])
-    } else {
-      const listeners = this._stateListeners.get(entityId)
-      if (listeners) {
+    const selector = parseSelector(entityId)
+    if (selector.type === 'pattern') {
+      this._patternListeners.push({ id, callback, pattern: selector.pattern })
+      this._patternMatches.clear()
+      return listenerInfo
+    }
+
+    // Store this callback to the _stateListeners or _domainListeners map
+    const [map, keys] = selector.type === 'domain'
+      ? [this._domainListeners, [selector.domain]]
+      : [this._stateListeners, selector.entityIds]
+    for (const key of keys) {
+      const listeners = map.get(key)
+      if (!listeners) {
+        map.set(key, [{ id, callback }])
+      } else {
         listeners.push({
           id,
           callback
         })
-        this._stateListeners.set(entityId, listeners)
       }
     }
     return listenerInfo
@@ -116,7 +366,7 @@ class API {
    * @memberof API
    */
   public onAutomation(entityId: string, callback: () => void) {
-    const id = Math.floor(Math.random() * 10000) + new Date().getTime()
+    const id = ++this._listenerId
     const listenerInfo = {
       id,
       entityId
@@ -141,20 +391,20 @@ class API {
   /**
    * Unsubscribe from state change.
    *
-   * @param {string} entityId   entity to unsubscribe
-   * @param {number} id         id subscription
+   * @param {IEntitySelector} entityId   entities to unsubscribe, as given to onState
+   * @param {number} id                  id subscription
    * @memberof API
    */
-  public clearOnState(entityId: string, id: number) {
-    if (this._stateListeners.has(entityId)) {
-      let listeners = this._stateListeners.get(entityId)
-      if (listeners) {
-        listeners = listeners.filter(l => l.id !== id)
-        if (listeners.length === 0) {
-          this._stateListeners.delete(entityId)
-          return
-        }
-        this._stateListeners.set(entityId, listeners)
+  public clearOnState(entityId: IEntitySelector, id: number) {
+    const selector = parseSelector(entityId)
+    if (selector.type === 'pattern') {
+      this._patternListeners = this._patternListeners.filter(l => l.id !== id)
+      this._patternMatches.clear()
+    } else if (selector.type === 'domain') {
+      removeListener(this._domainListeners, selector.domain, id)
+    } else {
+      for (const key of selector.entityIds) {
+        removeListener(this._stateListeners, key, id)
       }
     }
   }
@@ -180,6 +430,117 @@ class API {
     }
   }
 
+  /**
+   * Subscribe to a Home Assistant event type.
+   * All the listeners of the same event type share one websocket subscription.
+   *
+   * @param {string} eventType                Event type, for example: zha_event
+   * @param {IEventFilter} [filter]           Fields the event data must contain, or predicate
+   * @param {IEventCallback} callback         callback function
+   * @returns                listenerInfo     Object with the listener information
+   * @memberof API
+   */
+  public onEvent(eventType: string, callback: IEventCallback): { id: number, eventType: string }
+  public onEvent(eventType: string, filter: IEventFilter | undefined, callback: IEventCallback): { id: number, eventType: string }
+  public onEvent(eventType: string, filterOrCallback: IEventFilter | IEventCallback | undefined, callback?: IEventCallback) {
+    const listener: IEventListener = callback
+      ? { id: ++this._listenerId, filter: filterOrCallback as IEventFilter | undefined, callback }
+      : { id: ++this._listenerId, callback: filterOrCallback as IEventCallback }
+
+    const listeners = this._eventListeners.get(eventType) || []
+    listeners.push(listener)
+    this._eventListeners.set(eventType, listeners)
+
+    this._subscribeEventType(eventType)
+
+    return {
+      id: listener.id,
+      eventType
+    }
+  }
+
+  /**
+   * Unsubscribe from event.
+   * When it is the last listener of the event type, the websocket subscription is removed.
+   *
+   * @param {string} eventType  event type to unsubscribe
+   * @param {number} id         id subscription
+   * @memberof API
+   */
+  public clearOnEvent(eventType: string, id: number) {
+    const listeners = (this._eventListeners.get(eventType) || []).filter(l => l.id !== id)
+    if (listeners.length) {
+      this._eventListeners.set(eventType, listeners)
+      return
+    }
+    this._eventListeners.delete(eventType)
+
+    const subscription = this._eventSubscriptions.get(eventType)
+    if (!subscription || INTERNAL_EVENTS.includes(eventType)) {
+      return
+    }
+    this._eventSubscriptions.delete(eventType)
+    subscription
+      .then((subscriptionId) => this._connection.unsubscribe(subscriptionId))
+      .catch((error) => {
+        Logger.error(error)
+      })
+  }
+
+  /**
+   * Fire an event on the Home Assistant event bus
+   *
+   * @param {string} eventType              Event type
+   * @param {*} [data]                      Event data
+   * @param {IRequestOptions} [options]     Timeout and maximum time queued while disconnected
+   * @returns {Promise<any>}                Promise with the result, rejected with a RequestError
+   * @memberof API
+   */
+  public fireEvent(eventType: string, data?: any, options?: IRequestOptions): Promise<any> {
+    return this._connection.fireEvent(eventType, data || {}, options)
+  }
+
+  /**
+   * Get the location configured in Home Assistant, or the one of HA_LATITUDE and HA_LONGITUDE
+   * when it is not available. The result is cached.
+   *
+   * @returns {Promise<ILocation>}
+   * @memberof API
+   */
+  public getLocation(): Promise<ILocation> {
+    if (!this._location) {
+      this._location = this._connection.getConfig()
+        .then((config): ILocation => {
+          if (typeof config.latitude !== 'number' || typeof config.longitude !== 'number') {
+            throw new Error('Home Assistant has no location configured')
+          }
+          return { latitude: config.latitude, longitude: config.longitude, elevation: config.elevation || 0 }
+        })
+        .catch((e) => {
+          // Try again on the next call
+          this._location = undefined
+          if (this._config.location) {
+            Logger.debug(`Using the location of HA_LATITUDE and HA_LONGITUDE (${e.message})`)
+            return this._config.location
+          }
+          throw new Error(`Location not available, set HA_LATITUDE and HA_LONGITUDE: ${e.message}`)
+        })
+    }
+    return this._location
+  }
+
+  /**
+   * Automation file being instantiated, relative to the automations folder and without extension.
+   * Undefined for automations created by other means, like the test kit.
+   *
+   * @readonly
+   * @type {(string | undefined)}
+   * @memberof API
+   */
+  public get loadingAutomation(): string | undefined {
+    return this._loadingAutomation
+  }
+
   /**
    * Get current state of one entity
    *
@@ -190,16 +551,60 @@ class API {
   public async getState(entityId: string): Promise<IState> {
     const state = this._states.get(entityId)
     if (!state) {
-      throw new Error(`${entityId} state not available`)
+      throw new EntityNotFoundError(entityId, this.suggestEntities(entityId))
     }
     return state
   }
 
+  /**
+   * Existing entity_ids similar to one, closest first
+   *
+   * @param {string} entityId
+   * @returns {string[]}           Empty until the states are synced
+   * @memberof API
+   */
+  public suggestEntities(entityId: string): string[] {
+    return this._synced ? closestMatches(entityId, Array.from(this._states.keys())) : []
+  }
+
+  /**
+   * Warn about the entity_ids of a selector that do not exist, suggesting similar ones.
+   * Checked once the states are synced, and reported once per source.
+   * Domains and patterns are not checked, they can match entities created later.
+   *
+   * @param {IEntitySelector} selector
+   * @param {string} source          What uses the entities, for example: "kitchen" onStateChange
+   * @memberof API
+   */
+  public checkEntities(selector: IEntitySelector, source: string) {
+    const parsed = parseSelector(selector)
+    if (parsed.type !== 'entities') {
+      return
+    }
+    if (this._synced) {
+      this._checkEntities(parsed.entityIds, source)
+    } else {
+      this._pendingChecks.push({ entityIds: parsed.entityIds, source })
+    }
+  }
+
+  /**
+   * Last state received of one entity, without waiting
+   *
+   * @param {string} entityId
+   * @returns {(IState | undefined)}   Undefined if the entity does not exist
+   * @memberof API
+   */
+  public currentState(entityId: string): IState | undefined {
+    return this._states.get(entityId)
+  }
+
   public async setState(entityId: string, state: Partial<IState> & Pick<IState, 'state'>) {
-    const resp = await fetch(`https://${this.host}/api/states/${entityId}`, {
+    const resp = await this._fetch(`${this._config.restUrl}/states/${entityId}`, {
       method: 'POST',
+      agent: this._agent,
       headers: {
-        'Authorization': `Bearer ${this.token}`,
+        'Authorization': `Bearer ${this._config.token}`,
         'content-type': 'application/json',
       },
       body: JSON.stringify(state),
@@ -226,6 +631,142 @@ class API {
     return states
   }
 
+  /**
+   * Entity, device, area, floor and label registries, kept up to date
+   *
+   * @readonly
+   * @type {Registries}
+   * @memberof API
+   */
+  public get registries(): Registries {
+    return this._registries
+  }
+
+  /**
+   * Enabled entities of an area, including the ones of its devices
+   *
+   * @param {string} area          Area id, name or alias
+   * @param {string} [domain]      Only the entities of this domain, for example: light
+   * @returns {string[]}           entity_ids
+   * @memberof API
+   */
+  public entitiesInArea(area: string, domain?: string): string[] {
+    return this._registries.entitiesInArea(area, domain)
+  }
+
+  /**
+   * Enabled entities of the areas of a floor
+   *
+   * @param {string} floor         Floor id, name or alias
+   * @param {string} [domain]      Only the entities of this domain
+   * @returns {string[]}           entity_ids
+   * @memberof API
+   */
+  public entitiesOnFloor(floor: string, domain?: string): string[] {
+    return this._registries.entitiesOnFloor(floor, domain)
+  }
+
+  /**
+   * Enabled entities of a device
+   *
+   * @param {string} deviceId
+   * @param {string} [domain]      Only the entities of this domain
+   * @returns {string[]}           entity_ids
+   * @memberof API
+   */
+  public entitiesForDevice(deviceId: string, domain?: string): string[] {
+    return this._registries.entitiesForDevice(deviceId, domain)
+  }
+
+  /**
+   * Enabled entities with a label, or whose device has it
+   *
+   * @param {string} label         Label id or name
+   * @param {string} [domain]      Only the entities of this domain
+   * @returns {string[]}           entity_ids
+   * @memberof API
+   */
+  public entitiesWithLabel(label: string, domain?: string): string[] {
+    return this._registries.entitiesWithLabel(label, domain)
+  }
+
+  /**
+   * Area of an entity, or of its device
+   *
+   * @param {string} entityId
+   * @returns {(IAreaEntry | undefined)}
+   * @memberof API
+   */
+  public areaOf(entityId: string): IAreaEntry | undefined {
+    return this._registries.areaOf(entityId)
+  }
+
+  /**
+   * Device of an entity
+   *
+   * @param {string} entityId
+   * @returns {(IDeviceEntry | undefined)}
+   * @memberof API
+   */
+  public deviceOf(entityId: string): IDeviceEntry | undefined {
+    return this._registries.deviceOf(entityId)
+  }
+
+  /**
+   * Get the recorded states of some entities in a period
+   *
+   * @param {(string | string[])} entityIds
+   * @param {Date} start
+   * @param {Date} [end]                  Now by default
+   * @param {IHistoryOptions} [options]
+   * @returns {Promise<IHistory>}         States of each entity, empty for the ones without history
+   * @memberof API
+   */
+  public async getHistory(entityIds: string | string[], start: Date, end?: Date, options: IHistoryOptions = {}): Promise<IHistory> {
+    const ids = Array.isArray(entityIds) ? entityIds : [entityIds]
+    const result = await this._connection.getHistory({
+      entity_ids: ids,
+      start_time: start.toISOString(),
+      end_time: end ? end.toISOString() : undefined,
+      minimal_response: options.minimalResponse === true,
+      significant_changes_only: options.significantChangesOnly !== false,
+      include_start_time_state: true,
+      no_attributes: false
+    }) || {}
+
+    const history: IHistory = {}
+    for (const entityId of ids) {
+      history[entityId] = (result[entityId] || []).map((state: any) => parseHistoryState(entityId, state))
+    }
+    return history
+  }
+
+  /**
+   * Get the long term statistics of a period, like the ones of the energy dashboard
+   *
+   * @param {(string | string[])} statisticIds    entity_ids of sensors or external statistic ids
+   * @param {IStatisticsPeriod} period            Length of each result
+   * @param {Date} start
+   * @param {Date} [end]                          Now by default
+   * @returns {Promise<IStatistics>}              Periods of each statistic, empty for the ones without data
+   * @memberof API
+   */
+  public async getStatistics(statisticIds: string | string[], period: IStatisticsPeriod, start: Date, end?: Date): Promise<IStatistics> {
+    const ids = Array.isArray(statisticIds) ? statisticIds : [statisticIds]
+    const result = await this._connection.getStatistics({
+      statistic_ids: ids,
+      period,
+      start_time: start.toISOString(),
+      end_time: end ? end.toISOString() : undefined
+    }) || {}
+
+    const statistics: IStatistics = {}
+    for (const statisticId of ids) {
+      statistics[statisticId] = (result[statisticId] || []).map(parseStatistic)
+    }
+    return statistics
+  }
+
   /**
    * Call a Home Assistant service
    *
@@ -233,26 +774,27 @@ class API {
    * @param {string} service             Service, for example: turn_on
    * @param {(string | null)} entityId   Entity id
    * @param {*} data                     Attributes (optional)
-   * @returns {Promise<any>}             Promise with the result
+   * @param {IRequestOptions} [options]  Timeout and maximum time queued while disconnected
+   * @returns {Promise<any>}             Promise with the result, rejected with a RequestError
    * @memberof API
    */
-  public callService(domain: string, service: string, entityId: string | null, data: any): Promise<any> {
+  public callService(domain: string, service: string, entityId: string | null, data: any, options?: IRequestOptions): Promise<any> {
     return new Promise((resolve, reject) => {
-      let options: any = {
+      let serviceData: any = {
         entity_id: entityId
       }
 
       // Merging options
       if (data && data !== {}) {
-        options = { ...options, ...data }
+        serviceData = { ...serviceData, ...data }
       }
 
       // Some services don't require an entity_id
       if (!entityId) {
-        delete options.entity_id
+        delete serviceData.entity_id
       }
 
-      this._connection.callService(domain, service, options)
+      this._connection.callService(domain, service, serviceData, options)
         .then((returnedData) => {
           if (resolve) {
             resolve(returnedData)
@@ -269,100 +811,297 @@ class API {
   }
 
   /**
-   * Get all states and stores their values in the map
+   * Render a template once
+   *
+   * @param {string} template              Jinja template
+   * @param {*} [variables]                Variables available in the template
+   * @returns {Promise<any>}               Promise with the result, rejected with a TemplateError
+   * @memberof API
+   */
+  public async renderTemplate(template: string, variables?: { [name: string]: any }): Promise<any> {
+    let result: any
+    let rendered = false
+    const id = await this.onTemplate(template, variables, (value) => {
+      if (!rendered) {
+        rendered = true
+        result = value
+      }
+    })
+    await this.clearOnTemplate(id)
+    return result
+  }
+
+  /**
+   * Subscribe to the result of a template, re-rendered by Home Assistant when the entities it uses change.
+   * The callback receives the current result first. Errors of later renders are logged.
+   *
+   * @param {string} template              Jinja template
+   * @param {*} variables                  Variables available in the template
+   * @param {(result: any) => void} callback
+   * @returns {Promise<number>}            Promise with the subscription id, rejected with a TemplateError
+   *                                       when the first render fails
+   * @memberof API
+   */
+  public async onTemplate(template: string, variables: { [name: string]: any } | undefined, callback: (result: any) => void): Promise<number> {
+    let renderFirst: (event: any) => void = () => undefined
+    const first = new Promise<any>((resolve) => {
+      renderFirst = resolve
+    })
+    let initial = true
+    const notify = (result: any) => {
+      try {
+        callback(result)
+      } catch (e) {
+        Logger.error(e)
+      }
+    }
+
+    let id: number
+    try {
+      id = await this._connection.subscribeTemplate(template, variables || {}, (event) => {
+        if (event.error !== undefined && event.level === 'WARNING') {
+          Logger.warn(`Template warning: ${event.error}`)
+        } else if (initial) {
+          initial = false
+          renderFirst(event)
+        } else if (event.error !== undefined) {
+          Logger.error(new TemplateError(template, event.error))
+        } else {
+          notify(event.result)
+        }
+      })
+    } catch (e) {
+      // Syntax errors are answered with a template_error
+      if (e instanceof HomeAssistantError && e.code === 'template_error') {
+        throw new TemplateError(template, e.message.slice(e.code.length + 2))
+      }
+      throw e
+    }
+
+    const rendered = await first
+    if (rendered.error !== undefined) {
+      await this.clearOnTemplate(id).catch(Logger.error)
+      throw new TemplateError(template, rendered.error)
+    }
+    notify(rendered.result)
+    return id
+  }
+
+  /**
+   * Remove a template subscription
+   *
+   * @param {number} id                    Id returned by onTemplate
+   * @returns {Promise<void>}
+   * @memberof API
+   */
+  public clearOnTemplate(id: number): Promise<void> {
+    return this._connection.unsubscribe(id)
+  }
+
+  /**
+   * Destroy every loaded automation, used on shutdown.
+   * Their MQTT entities are marked unavailable, even those removed on hot reload
+   *
+   * @memberof API
+   */
+  public unload() {
+    Array.from(this._automations).forEach((automation) => {
+      Logger.debug(`Unloading ${automation[0]}`)
+      try {
+        automation[1].destroy(true)
+      } catch (e) {
+        Logger.error(e)
+      }
+      this._automations.delete(automation[0])
+    })
+  }
+
+  /**
+   * Warn about the entity_ids missing in the states
    *
    * @private
-   * @returns {Promise<void>}      Promise
+   * @param {string[]} entityIds
+   * @param {string} source
    * @memberof API
    */
-  private async _syncStates(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this._connection.getStates()
-        .catch(reject)
-        .then((states) => {
-          if (!states) {
-            resolve()
-          } else {
-            states = states.map((state: IState) => {
-              state.last_changed = new Date(state.last_changed)
-              state.last_updated = new Date(state.last_updated)
-              return state
-            })
-
-            for (const state of states) {
-              this._states.set(state.entity_id, state)
-            }
-            resolve()
-          }
-        })
+  private _checkEntities(entityIds: string[], source: string) {
+    for (const entityId of entityIds) {
+      const key = `${source}|${entityId}`
+      if (this._states.has(entityId) || this._missingReported.has(key)) {
+        continue
+      }
+      this._missingReported.add(key)
+      const suggestions = this.suggestEntities(entityId)
+      Logger.warn(`Entity not found: ${entityId} (used by ${source})` +
+        (suggestions.length > 0 ? `. Did you mean: ${suggestions.join(', ')}?` : ''))
+    }
+  }
+
+  /**
+   * Get all states and stores their values in the map.
+   * Entities created since the previous sync are returned as changes with a null oldState,
+   * like the state_changed event of a new entity.
+   * Entities not returned anymore are removed from the map without notifying the listeners,
+   * their last state stays the last one notified.
+   *
+   * @private
+   * @returns {Promise<IStateChange[]>}   States that differ from the previously stored ones, or are new
+   * @memberof API
+   */
+  private async _syncStates(): Promise<IStateChange[]> {
+    const states = (await this._connection.getStates() || []).map(parseState)
+    const changes: IStateChange[] = []
+    const current = new Set<string>()
+
+    for (const state of states) {
+      const oldState = this._states.get(state.entity_id) || null
+      if (!oldState || oldState.state !== state.state || oldState.last_updated.getTime() !== state.last_updated.getTime()) {
+        changes.push({ newState: state, oldState })
+      }
+      this._states.set(state.entity_id, state)
+      current.add(state.entity_id)
+    }
+
+    for (const entityId of Array.from(this._states.keys())) {
+      if (!current.has(entityId)) {
+        this._states.delete(entityId)
+      }
+    }
+
+    return changes
+  }
+
+  /**
+   * Subscribe to an event type, if it is not already subscribed
+   *
+   * @private
+   * @param {string} eventType
+   * @memberof API
+   */
+  private _subscribeEventType(eventType: string) {
+    if (this._eventSubscriptions.has(eventType)) {
+      return
+    }
+    const subscription = this._connection.subscribeEvent(eventType, (message) => {
+      this._onEvent(parseEvent(message))
     })
+    subscription.catch((error) => {
+      Logger.error(error)
+    })
+    this._eventSubscriptions.set(eventType, subscription)
   }
 
   /**
-   * Initiates subscription to all states changes.
+   * Handle every event received from Home Assistant,
+   * calling the internal handlers and the listeners of its type
+   *
+   * @private
+   * @param {IEvent} event
+   * @memberof API
+   */
+  private _onEvent(event: IEvent) {
+    if (event.event_type === 'state_changed') {
+      this._onStateChange(event)
+    } else if (event.event_type === 'automation_triggered') {
+      this._onAutomationTrigger(event)
+    } else if (REGISTRY_EVENTS.has(event.event_type)) {
+      this._registries.refresh(REGISTRY_EVENTS.get(event.event_type) as IRegistryName)
+    }
+
+    const listeners = this._eventListeners.get(event.event_type)
+    if (!listeners) {
+      return
+    }
+    for (const listener of listeners) {
+      try {
+        const { filter } = listener
+        if (filter && (typeof filter === 'function' ? !filter(event) : !matchesFilter(event.data, filter))) {
+          continue
+        }
+        listener.callback(event)
+      } catch (e) {
+        Logger.error(e)
+      }
+    }
+  }
+
+  /**
+   * Handle state changes.
    * Logs any change to the console, stores the new state in the states map
    * and call all callback functions from listeners.
    *
    * @private
+   * @param {IEvent} message   state_changed event
    * @memberof API
    */
-  private _onStateChange() {
-    // Subscribing to Home Assistant state_change event
-    this._connection.subscribeEvent('state_changed', (message) => {
-      const newState: IState = message.data.new_state
-      if (!newState) {
-        return
-      }
-      Logger.debug(`New state of ${newState.attributes.friendly_name} (${newState.entity_id}): ${newState.state}`)
-      this._states.set(newState.entity_id, newState)
-
-      if (this._stateListeners.has(newState.entity_id)) {
-        const listeners = this._stateListeners.get(newState.entity_id)
-        if (listeners) {
-          for (const listener of listeners) {
-            try {
-              listener.callback(newState, message.data.old_state)
-            } catch (e) {
-              Logger.error(e)
-            }
-          }
-        }
+  private _onStateChange(message: IEvent) {
+    if (!message.data.new_state) {
+      return
+    }
+    const newState = parseState(message.data.new_state)
+    const oldState = message.data.old_state ? parseState(message.data.old_state) : null
+    Logger.debug(`New state of ${newState.attributes.friendly_name} (${newState.entity_id}): ${newState.state}`)
+    this._states.set(newState.entity_id, newState)
+    this._dispatchStateChange(newState, oldState)
+  }
+
+  /**
+   * Call all the listeners of the entity, its domain and the matching patterns
+   *
+   * @private
+   * @param {IState} newState
+   * @param {(IState | null)} oldState
+   * @memberof API
+   */
+  private _dispatchStateChange(newState: IState, oldState: IState | null) {
+    const entityId = newState.entity_id
+    const domain = entityId.split('.')[0]
+
+    let patternListeners = this._patternMatches.get(entityId)
+    if (!patternListeners) {
+      patternListeners = this._patternListeners.filter(l => l.pattern.test(entityId))
+      this._patternMatches.set(entityId, patternListeners)
+    }
+
+    const diff = diffStates(newState, oldState)
+    const listeners = [
+      ...(this._stateListeners.get(entityId) || []),
+      ...(this._domainListeners.get(domain) || []),
+      ...patternListeners
+    ]
+    for (const listener of listeners) {
+      try {
+        listener.callback(newState, oldState, diff)
+      } catch (e) {
+        Logger.error(e)
       }
-    })
-      .catch((error) => {
-        Logger.error(error)
-      })
+    }
   }
   
   /**
-   * Initiates subscription to all automation trigger events.
+   * Handle automation trigger events.
    * Logs any change to the console, and call all callback functions from listeners.
    *
    * @private
+   * @param {IEvent} message   automation_triggered event
    * @memberof API
    */
-   private _onAutomationTrigger() {
-    // Subscribing to Home Assistant state_change event
-    this._connection.subscribeEvent('automation_triggered', (message) => {
-      const { name, entity_id } = message.data
-      Logger.debug(`Automation "${name}" triggered (${entity_id})`)
-
-      if (this._automationListeners.has(entity_id)) {
-        const listeners = this._automationListeners.get(entity_id)
-        if (listeners) {
-          for (const listener of listeners) {
-            try {
-              listener.callback()
-            } catch (e) {
-              Logger.error(e)
-            }
+  private _onAutomationTrigger(message: IEvent) {
+    const { name, entity_id } = message.data
+    Logger.debug(`Automation "${name}" triggered (${entity_id})`)
+
+    if (this._automationListeners.has(entity_id)) {
+      const listeners = this._automationListeners.get(entity_id)
+      if (listeners) {
+        for (const listener of listeners) {
+          try {
+            listener.callback()
+          } catch (e) {
+            Logger.error(e)
           }
         }
       }
-    })
-      .catch((error) => {
-        Logger.error(error)
-      })
+    }
   }
 
   /**
@@ -375,9 +1114,8 @@ class API {
    * @memberof API
    */
   private async _bootstrap(): Promise<void> {
-    const automationsDir: string = path.resolve(path.join(__dirname, '..', 'automations'))
     // Watch for changes
-    const watcher = chokidar.watch(`${automationsDir}/**/**`)
+    const watcher = chokidar.watch(`${AUTOMATIONS_DIR}/**/**`)
     watcher.on('change', (filename) => {
       this._modifiedFile('change', filename)
     })
@@ -400,7 +1138,7 @@ class API {
    * @memberof API
    */
   private _modifiedFile(ev: string, filename: string) {
-    if (!/\.ts$/.test(filename) || /\/\.?lib\//.test(filename)) {
+    if (!/\.ts$/.test(filename) || /\.spec\.ts$/.test(filename) || /\/\.?lib\//.test(filename)) {
       return
     }
     delete require.cache[require.resolve(path.join(filename))]
@@ -424,29 +1162,14 @@ class API {
   private _loadAutomation(filename: string) {
     try {
       const newC = require(filename)
+      this._loadingAutomation = path.relative(AUTOMATIONS_DIR, filename).replace(/\.ts$/, '')
       this._automations.set(filename, new newC())
     } catch (e) {
       Logger.error(e)
+    } finally {
+      this._loadingAutomation = undefined
     }
   }
-
-  /**
-   * Unloads automation class
-   *
-   * @private
-   * @memberof API
-   */
-  private _unload() {
-    Array.from(this._automations).forEach((automation) => {
-      Logger.debug(`Unloading ${automation[0]}`)
-      try {
-        automation[1].destroy()
-      } catch (e) {
-        Logger.error(e)
-      }
-      this._automations.delete(automation[0])
-    })
-  }
 }
 
 export default API
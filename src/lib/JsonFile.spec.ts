@@ -0,0 +1,110 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import JsonFile from './JsonFile'
+import Logger from './Logger'
+
+describe('JsonFile', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hass-sidecar-'))
+    filePath = path.join(dir, 'jobs', 'test.json')
+  })
+
+  afterEach(async () => {
+    jest.restoreAllMocks()
+    await fs.promises.rm(dir, { recursive: true, force: true })
+  })
+
+  // Hold the rename of the temporary file until released
+  const holdRename = () => {
+    const rename = fs.promises.rename
+    let release: () => void = () => undefined
+    const released = new Promise<void>((resolve) => { release = resolve })
+    let renaming: () => void = () => undefined
+    const started = new Promise<void>((resolve) => { renaming = resolve })
+    const spy = jest.spyOn(fs.promises, 'rename').mockImplementation(async (from, to) => {
+      renaming()
+      await released
+      return rename(from, to)
+    })
+    return { spy, started, release }
+  }
+
+  it('keeps the saved data after reloading it', async () => {
+    const file = new JsonFile(filePath, { count: 0 })
+    expect(file.data).toEqual({ count: 0 })
+
+    file.data = { count: 3 }
+    await file.save()
+
+    expect(new JsonFile(filePath, { count: 0 }).data).toEqual({ count: 3 })
+  })
+
+  it('starts with the default value when the file can not be parsed', async () => {
+    const error = jest.spyOn(Logger, 'error').mockImplementation(() => undefined)
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.promises.writeFile(filePath, '{"count":')
+
+    expect(new JsonFile(filePath, { count: 0 }).data).toEqual({ count: 0 })
+    expect(error).toHaveBeenCalledTimes(1)
+  })
+
+  it('coalesces the saves requested during a write into one with the latest data', async () => {
+    const file = new JsonFile(filePath, { count: 0 })
+    const { spy, started, release } = holdRename()
+
+    file.data = { count: 1 }
+    const first = file.save()
+    await started
+    file.data = { count: 2 }
+    const second = file.save()
+    file.data = { count: 3 }
+    const third = file.save()
+    expect(third).toBe(second)
+
+    release()
+    await Promise.all([first, second, third])
+
+    expect(spy).toHaveBeenCalledTimes(2)
+    expect(new JsonFile(filePath, { count: 0 }).data).toEqual({ count: 3 })
+  })
+
+  it('replaces the file only once the new content is written', async () => {
+    const file = new JsonFile(filePath, { count: 1 })
+    await file.save()
+    const { started, release } = holdRename()
+
+    file.data = { count: 2 }
+    const saved = file.save()
+    await started
+
+    // The new content is complete in the temporary file, the previous one is untouched
+    expect(JSON.parse(fs.readFileSync(filePath).toString())).toEqual({ count: 1 })
+    const [tmp] = fs.readdirSync(path.dirname(filePath)).filter((name) => name.endsWith('.tmp'))
+    expect(JSON.parse(fs.readFileSync(path.join(path.dirname(filePath), tmp)).toString())).toEqual({ count: 2 })
+
+    release()
+    await saved
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(['test.json'])
+    expect(JSON.parse(fs.readFileSync(filePath).toString())).toEqual({ count: 2 })
+  })
+
+  it('keeps the previous file when a write fails, and saves again afterwards', async () => {
+    const error = jest.spyOn(Logger, 'error').mockImplementation(() => undefined)
+    const file = new JsonFile(filePath, { count: 1 })
+    await file.save()
+
+    jest.spyOn(fs.promises, 'rename').mockRejectedValueOnce(new Error('disk full'))
+    file.data = { count: 2 }
+    await expect(file.save()).rejects.toThrow('disk full')
+    await file.flush()
+    expect(error).toHaveBeenCalledWith(`Unable to write ${filePath}: disk full`)
+    expect(JSON.parse(fs.readFileSync(filePath).toString())).toEqual({ count: 1 })
+
+    await file.save()
+    expect(JSON.parse(fs.readFileSync(filePath).toString())).toEqual({ count: 2 })
+  })
+})
@@ -0,0 +1,93 @@
+import fs from 'fs'
+import path from 'path'
+import Logger from './Logger'
+
+/**
+ * JSON document kept in memory and saved to disk.
+ * Writes go to a temporary file which replaces the previous one, so a crash
+ * never leaves a half written file. Saves are serialized and coalesced.
+ *
+ * @class JsonFile
+ * @template T
+ */
+class JsonFile<T> {
+  readonly path: string
+  public data: T
+
+  // Last write, settled
+  private _writing: Promise<void> = Promise.resolve()
+  // Write waiting for the current one, it will save the latest data
+  private _queued?: Promise<void>
+
+  /**
+   * Creates an instance of JsonFile, reading the file if it exists
+   *
+   * @param {string} filePath
+   * @param {T} defaultValue        Data when the file does not exist or can not be parsed
+   * @memberof JsonFile
+   */
+  constructor(filePath: string, defaultValue: T) {
+    this.path = filePath
+    this.data = defaultValue
+    try {
+      this.data = JSON.parse(fs.readFileSync(filePath).toString())
+    } catch (e) {
+      if (e.code !== 'ENOENT') {
+        Logger.error(`Unable to read ${filePath}, starting empty: ${e.message}`)
+      }
+    }
+  }
+
+  /**
+   * Save the data
+   *
+   * @returns {Promise<void>}      Resolved when the current data is on disk
+   * @memberof JsonFile
+   */
+  public save(): Promise<void> {
+    if (!this._queued) {
+      const queued = this._writing.then(() => {
+        this._queued = undefined
+        return this._write()
+      })
+      this._queued = queued
+      this._writing = queued.catch((e) => {
+        Logger.error(`Unable to write ${this.path}: ${e.message}`)
+      })
+    }
+    return this._queued
+  }
+
+  /**
+   * Wait for the pending writes
+   *
+   * @returns {Promise<void>}
+   * @memberof JsonFile
+   */
+  public flush(): Promise<void> {
+    return this._writing
+  }
+
+  /**
+   * Write the data to a temporary file and move it over the previous one
+   *
+   * @private
+   * @returns {Promise<void>}
+   * @memberof JsonFile
+   */
+  private async _write(): Promise<void> {
+    const json = JSON.stringify(this.data, null, 2)
+    const tmp = `${this.path}.${process.pid}.tmp`
+    await fs.promises.mkdir(path.dirname(this.path), { recursive: true })
+    const file = await fs.promises.open(tmp, 'w')
+    try {
+      await file.writeFile(json)
+      await file.sync()
+    } finally {
+      await file.close()
+    }
+    await fs.promises.rename(tmp, this.path)
+  }
+}
+
+export default JsonFile
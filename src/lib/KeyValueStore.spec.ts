@@ -0,0 +1,67 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import JsonFile from './JsonFile'
+import KeyValueStore from './KeyValueStore'
+
+describe('KeyValueStore', () => {
+  let dir: string
+  let filePath: string
+  let store: KeyValueStore
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hass-sidecar-'))
+    filePath = path.join(dir, 'store', 'test.json')
+    store = new KeyValueStore(new JsonFile(filePath, {}))
+  })
+
+  afterEach(async () => {
+    jest.restoreAllMocks()
+    await fs.promises.rm(dir, { recursive: true, force: true })
+  })
+
+  it('keeps the values after reloading the file', async () => {
+    await store.set('rings', 2)
+    await store.set('last', { at: '2021-06-21T20:00:00.000Z' })
+    await store.set('old', true)
+    await store.delete('old')
+
+    const reloaded = new KeyValueStore(new JsonFile(filePath, {}))
+    expect(await reloaded.keys()).toEqual(['rings', 'last'])
+    expect(await reloaded.get('rings')).toBe(2)
+    expect(await reloaded.get('last')).toEqual({ at: '2021-06-21T20:00:00.000Z' })
+    expect(await reloaded.get('old', false)).toBe(false)
+  })
+
+  it('saves the values set at once in one write', async () => {
+    const rename = jest.spyOn(fs.promises, 'rename')
+
+    await Promise.all([store.set('a', 1), store.set('b', 2), store.set('c', 3)])
+
+    expect(rename).toHaveBeenCalledTimes(1)
+    expect(JSON.parse(fs.readFileSync(filePath).toString())).toEqual({ a: 1, b: 2, c: 3 })
+  })
+
+  it('copies the values, so changing them does not change the store', async () => {
+    const value = { list: [1] }
+    await store.set('value', value)
+    value.list.push(2)
+
+    const read = await store.get('value')
+    read.list.push(3)
+
+    expect(await store.get('value')).toEqual({ list: [1] })
+  })
+
+  it('notifies the watchers of changed values only', async () => {
+    const watcher = jest.fn()
+    store.watch('mode', watcher)
+
+    await store.set('mode', 'eco')
+    await store.set('mode', 'eco')
+    await store.set('other', 'comfort')
+    await store.delete('mode')
+
+    expect(watcher.mock.calls).toEqual([['eco', undefined], [undefined, 'eco']])
+  })
+})
@@ -0,0 +1,177 @@
+import JsonFile from './JsonFile'
+import Logger from './Logger'
+import { isEqual } from './helpers'
+
+export type IStoreWatcher<T = any> = (value: T | undefined, oldValue: T | undefined) => Promise<void> | void
+
+type IStoreData = { [key: string]: any }
+
+/**
+ * Copy of a value through JSON, as it is saved
+ *
+ * @param {*} value
+ * @returns {*}
+ */
+const toJson = (value: any): any => {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value))
+}
+
+/**
+ * Key-value store of JSON values saved in a file of the data directory.
+ * Values are copied when set and when read, so changing them does not change the store.
+ *
+ * @class KeyValueStore
+ */
+class KeyValueStore {
+  private _file: JsonFile<IStoreData>
+  private _watchers: Map<string, Map<number, IStoreWatcher>> = new Map()
+  private _watcherId: number = 0
+
+  /**
+   * Creates an instance of KeyValueStore.
+   *
+   * @param {JsonFile<IStoreData>} file
+   * @memberof KeyValueStore
+   */
+  constructor(file: JsonFile<IStoreData>) {
+    this._file = file
+  }
+
+  /**
+   * Get a value
+   *
+   * @template T
+   * @param {string} key
+   * @param {T} [defaultValue]      Returned when the key is not set
+   * @returns {Promise<T | undefined>}
+   * @memberof KeyValueStore
+   */
+  public get<T = any>(key: string): Promise<T | undefined>
+  public get<T = any>(key: string, defaultValue: T): Promise<T>
+  public async get<T = any>(key: string, defaultValue?: T): Promise<T | undefined> {
+    return this._has(key) ? toJson(this._file.data[key]) : defaultValue
+  }
+
+  /**
+   * Set a value. Setting undefined deletes the key
+   *
+   * @param {string} key
+   * @param {*} value               Any value serializable to JSON
+   * @returns {Promise<void>}       Resolved when saved to disk
+   * @memberof KeyValueStore
+   */
+  public async set(key: string, value: any): Promise<void> {
+    if (value === undefined) {
+      await this.delete(key)
+      return
+    }
+    const json = toJson(value)
+    const oldValue = this._file.data[key]
+    this._file.data[key] = json
+    await this._changed(key, json, oldValue)
+  }
+
+  /**
+   * Delete a value
+   *
+   * @param {string} key
+   * @returns {Promise<boolean>}    False if the key was not set
+   * @memberof KeyValueStore
+   */
+  public async delete(key: string): Promise<boolean> {
+    if (!this._has(key)) {
+      return false
+    }
+    const oldValue = this._file.data[key]
+    delete this._file.data[key]
+    await this._changed(key, undefined, oldValue)
+    return true
+  }
+
+  /**
+   * Keys with a value
+   *
+   * @returns {Promise<string[]>}
+   * @memberof KeyValueStore
+   */
+  public async keys(): Promise<string[]> {
+    return Object.keys(this._file.data)
+  }
+
+  /**
+   * Call a function when the value of a key changes, with the new and old values.
+   * The value is undefined when the key is deleted
+   *
+   * @template T
+   * @param {string} key
+   * @param {IStoreWatcher<T>} callback
+   * @returns {number}              Id to stop watching with unwatch
+   * @memberof KeyValueStore
+   */
+  public watch<T = any>(key: string, callback: IStoreWatcher<T>): number {
+    const id = ++this._watcherId
+    const watchers = this._watchers.get(key) || new Map()
+    watchers.set(id, callback)
+    this._watchers.set(key, watchers)
+    return id
+  }
+
+  /**
+   * Stop watching a key
+   *
+   * @param {number} id
+   * @memberof KeyValueStore
+   */
+  public unwatch(id: number) {
+    for (const [key, watchers] of Array.from(this._watchers)) {
+      if (watchers.delete(id) && watchers.size === 0) {
+        this._watchers.delete(key)
+      }
+    }
+  }
+
+  /**
+   * Remove every watcher. Values are kept
+   *
+   * @memberof KeyValueStore
+   */
+  public close() {
+    this._watchers.clear()
+  }
+
+  /**
+   * Whether a key has a value
+   *
+   * @private
+   * @param {string} key
+   * @returns {boolean}
+   * @memberof KeyValueStore
+   */
+  private _has(key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this._file.data, key)
+  }
+
+  /**
+   * Save the file and notify the watchers of a key
+   *
+   * @private
+   * @param {string} key
+   * @param {*} value
+   * @param {*} oldValue
+   * @returns {Promise<void>}
+   * @memberof KeyValueStore
+   */
+  private _changed(key: string, value: any, oldValue: any): Promise<void> {
+    const saved = this._file.save()
+    if (!isEqual(value, oldValue)) {
+      for (const callback of Array.from((this._watchers.get(key) || new Map()).values())) {
+        Promise.resolve()
+          .then(() => callback(toJson(value), toJson(oldValue)))
+          .catch(Logger.error)
+      }
+    }
+    return saved
+  }
+}
+
+export default KeyValueStore
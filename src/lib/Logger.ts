@@ -38,6 +38,10 @@ export default class Logger {
     log('blue', `[INF] ${text}`)
   }
 
+  static warn (text: any) {
+    log('yellow', `[WRN] ${text}`)
+  }
+
   static debug (text: any) {
     log('green', `[DEB] ${text}`)
   }
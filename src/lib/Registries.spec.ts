@@ -0,0 +1,83 @@
+import FakeConnection from '../testing/FakeConnection'
+import Registries from './Registries'
+
+const entity = (entityId: string, fields: object = {}) => ({
+  entity_id: entityId,
+  id: entityId,
+  platform: 'test',
+  name: null,
+  area_id: null,
+  device_id: null,
+  labels: [],
+  disabled_by: null,
+  hidden_by: null,
+  entity_category: null,
+  ...fields
+})
+
+describe('Registries', () => {
+  let connection: FakeConnection
+  let registries: Registries
+
+  beforeEach(async () => {
+    connection = new FakeConnection()
+    connection.registries = {
+      floor: [{ floor_id: 'ground', name: 'Ground floor', level: 0, aliases: ['downstairs'] }],
+      area: [
+        { area_id: 'kitchen', name: 'Kitchen', floor_id: 'ground', labels: [], aliases: ['Cocina'] },
+        { area_id: 'garden', name: 'Garden', floor_id: null, labels: [], aliases: [] }
+      ],
+      label: [{ label_id: 'night', name: 'Night lights', color: null }],
+      device: [
+        { id: 'hue_bridge', name: 'Hue', name_by_user: null, manufacturer: 'Signify', model: null, area_id: 'kitchen', labels: ['night'], disabled_by: null }
+      ],
+      entity: [
+        entity('light.kitchen', { device_id: 'hue_bridge' }),
+        entity('light.garden', { device_id: 'hue_bridge', area_id: 'garden' }),
+        entity('sensor.kitchen_temperature', { area_id: 'kitchen' }),
+        entity('light.old', { area_id: 'kitchen', disabled_by: 'user' })
+      ]
+    }
+    registries = new Registries(connection)
+    await registries.sync()
+  })
+
+  it('finds the entities of an area, including the ones inherited from their device', () => {
+    expect(registries.entitiesInArea('kitchen')).toEqual(['light.kitchen', 'sensor.kitchen_temperature'])
+    expect(registries.entitiesInArea('kitchen', 'light')).toEqual(['light.kitchen'])
+    expect(registries.entitiesInArea('garden')).toEqual(['light.garden'])
+    expect(registries.entitiesInArea('attic')).toEqual([])
+  })
+
+  it('finds areas and floors by name or alias, case insensitive', () => {
+    expect(registries.area('COCINA')!.area_id).toBe('kitchen')
+    expect(registries.floor('Downstairs')!.floor_id).toBe('ground')
+    expect(registries.entitiesOnFloor('ground floor')).toEqual(['light.kitchen', 'sensor.kitchen_temperature'])
+  })
+
+  it('finds the entities of a device and the ones labelled directly or through their device', () => {
+    expect(registries.entitiesForDevice('hue_bridge')).toEqual(['light.garden', 'light.kitchen'])
+    expect(registries.entitiesWithLabel('Night lights')).toEqual(['light.garden', 'light.kitchen'])
+    expect(registries.deviceOf('light.kitchen')!.name).toBe('Hue')
+    expect(registries.areaOf('light.garden')!.name).toBe('Garden')
+    expect(registries.devicesInArea('kitchen').map((d) => d.id)).toEqual(['hue_bridge'])
+  })
+
+  it('fetches a registry once more when refreshed while loading', async () => {
+    const listRegistry = jest.spyOn(connection, 'listRegistry')
+    connection.registries.area = [...connection.registries.area, { area_id: 'attic', name: 'Attic', floor_id: null, labels: [], aliases: [] }]
+
+    await Promise.all([registries.refresh('area'), registries.refresh('area'), registries.refresh('area')])
+
+    expect(listRegistry).toHaveBeenCalledTimes(2)
+    expect(registries.area('attic')).toBeDefined()
+  })
+
+  it('keeps a registry empty when it can not be loaded', async () => {
+    jest.spyOn(connection, 'listRegistry').mockRejectedValue(new Error('Unknown command.'))
+    const failing = new Registries(connection)
+
+    await expect(failing.sync()).resolves.toBeUndefined()
+    expect(failing.floors).toEqual([])
+  })
+})
@@ -0,0 +1,351 @@
+import { IConnection } from '../interfaces/IConnection'
+import { IAreaEntry, IDeviceEntry, IEntityEntry, IFloorEntry, ILabelEntry, IRegistryName } from '../interfaces/IRegistryEntries'
+import Logger from './Logger'
+
+export const REGISTRY_NAMES: IRegistryName[] = ['entity', 'device', 'area', 'floor', 'label']
+
+/**
+ * Copy of the entity, device, area, floor and label registries of Home Assistant.
+ * They are loaded with every connection and fetched again on their *_registry_updated events.
+ * A registry that can not be loaded (like floors before Home Assistant 2024.4) stays empty.
+ *
+ * @class Registries
+ */
+class Registries {
+  private _connection: IConnection
+  private _entities: Map<string, IEntityEntry> = new Map()
+  private _devices: Map<string, IDeviceEntry> = new Map()
+  private _areas: Map<string, IAreaEntry> = new Map()
+  private _floors: Map<string, IFloorEntry> = new Map()
+  private _labels: Map<string, ILabelEntry> = new Map()
+  // Fetches in progress, and the registries updated meanwhile
+  private _fetching: Map<IRegistryName, Promise<void>> = new Map()
+  private _outdated: Set<IRegistryName> = new Set()
+
+  /**
+   * Creates an instance of Registries.
+   *
+   * @param {IConnection} connection
+   * @memberof Registries
+   */
+  constructor(connection: IConnection) {
+    this._connection = connection
+  }
+
+  /**
+   * Entity registry entries, including the disabled ones
+   *
+   * @readonly
+   * @type {IEntityEntry[]}
+   * @memberof Registries
+   */
+  get entities(): IEntityEntry[] {
+    return Array.from(this._entities.values())
+  }
+
+  /**
+   * Device registry entries
+   *
+   * @readonly
+   * @type {IDeviceEntry[]}
+   * @memberof Registries
+   */
+  get devices(): IDeviceEntry[] {
+    return Array.from(this._devices.values())
+  }
+
+  /**
+   * Area registry entries
+   *
+   * @readonly
+   * @type {IAreaEntry[]}
+   * @memberof Registries
+   */
+  get areas(): IAreaEntry[] {
+    return Array.from(this._areas.values())
+  }
+
+  /**
+   * Floor registry entries
+   *
+   * @readonly
+   * @type {IFloorEntry[]}
+   * @memberof Registries
+   */
+  get floors(): IFloorEntry[] {
+    return Array.from(this._floors.values())
+  }
+
+  /**
+   * Label registry entries
+   *
+   * @readonly
+   * @type {ILabelEntry[]}
+   * @memberof Registries
+   */
+  get labels(): ILabelEntry[] {
+    return Array.from(this._labels.values())
+  }
+
+  /**
+   * Load every registry
+   *
+   * @returns {Promise<void>}     Never rejected, failures are logged
+   * @memberof Registries
+   */
+  public async sync(): Promise<void> {
+    await Promise.all(REGISTRY_NAMES.map((name) => this.refresh(name)))
+  }
+
+  /**
+   * Load a registry again. Calls made while it is loading fetch it once more when it finishes,
+   * so bursts of updates are coalesced.
+   *
+   * @param {IRegistryName} name
+   * @returns {Promise<void>}     Never rejected, failures are logged
+   * @memberof Registries
+   */
+  public refresh(name: IRegistryName): Promise<void> {
+    const fetching = this._fetching.get(name)
+    if (fetching) {
+      this._outdated.add(name)
+      return fetching
+    }
+    const refresh = this._fetch(name)
+      .catch((e) => Logger.warn(`Could not load the ${name} registry: ${e.message}`))
+      .then(() => {
+        this._fetching.delete(name)
+        if (this._outdated.delete(name)) {
+          return this.refresh(name)
+        }
+      })
+    this._fetching.set(name, refresh)
+    return refresh
+  }
+
+  /**
+   * Entity registry entry of an entity
+   *
+   * @param {string} entityId
+   * @returns {(IEntityEntry | undefined)}    Undefined for entities without unique_id
+   * @memberof Registries
+   */
+  public entity(entityId: string): IEntityEntry | undefined {
+    return this._entities.get(entityId)
+  }
+
+  /**
+   * Find a device by id
+   *
+   * @param {string} deviceId
+   * @returns {(IDeviceEntry | undefined)}
+   * @memberof Registries
+   */
+  public device(deviceId: string): IDeviceEntry | undefined {
+    return this._devices.get(deviceId)
+  }
+
+  /**
+   * Find an area by id, name or alias (case insensitive)
+   *
+   * @param {string} area
+   * @returns {(IAreaEntry | undefined)}
+   * @memberof Registries
+   */
+  public area(area: string): IAreaEntry | undefined {
+    return this._areas.get(area) || findByName(this.areas, area)
+  }
+
+  /**
+   * Find a floor by id, name or alias (case insensitive)
+   *
+   * @param {string} floor
+   * @returns {(IFloorEntry | undefined)}
+   * @memberof Registries
+   */
+  public floor(floor: string): IFloorEntry | undefined {
+    return this._floors.get(floor) || findByName(this.floors, floor)
+  }
+
+  /**
+   * Find a label by id or name (case insensitive)
+   *
+   * @param {string} label
+   * @returns {(ILabelEntry | undefined)}
+   * @memberof Registries
+   */
+  public label(label: string): ILabelEntry | undefined {
+    return this._labels.get(label) || findByName(this.labels, label)
+  }
+
+  /**
+   * Device of an entity
+   *
+   * @param {string} entityId
+   * @returns {(IDeviceEntry | undefined)}
+   * @memberof Registries
+   */
+  public deviceOf(entityId: string): IDeviceEntry | undefined {
+    const entry = this._entities.get(entityId)
+    return entry && entry.device_id ? this._devices.get(entry.device_id) : undefined
+  }
+
+  /**
+   * Area of an entity: its own one or, when it has none, the one of its device
+   *
+   * @param {string} entityId
+   * @returns {(IAreaEntry | undefined)}
+   * @memberof Registries
+   */
+  public areaOf(entityId: string): IAreaEntry | undefined {
+    const entry = this._entities.get(entityId)
+    if (!entry) {
+      return undefined
+    }
+    const device = entry.device_id ? this._devices.get(entry.device_id) : undefined
+    const areaId = entry.area_id || (device && device.area_id)
+    return areaId ? this._areas.get(areaId) : undefined
+  }
+
+  /**
+   * Enabled entities of an area, including the ones of its devices without an area of their own
+   *
+   * @param {string} area          Area id, name or alias
+   * @param {string} [domain]      Only the entities of this domain
+   * @returns {string[]}           entity_ids, empty when the area does not exist
+   * @memberof Registries
+   */
+  public entitiesInArea(area: string, domain?: string): string[] {
+    const entry = this.area(area)
+    if (!entry) {
+      return []
+    }
+    return this._enabledEntities(domain, (e) => {
+      const areaOf = this.areaOf(e.entity_id)
+      return areaOf !== undefined && areaOf.area_id === entry.area_id
+    })
+  }
+
+  /**
+   * Enabled entities of the areas of a floor
+   *
+   * @param {string} floor         Floor id, name or alias
+   * @param {string} [domain]      Only the entities of this domain
+   * @returns {string[]}           entity_ids, empty when the floor does not exist
+   * @memberof Registries
+   */
+  public entitiesOnFloor(floor: string, domain?: string): string[] {
+    const entry = this.floor(floor)
+    if (!entry) {
+      return []
+    }
+    return this._enabledEntities(domain, (e) => {
+      const areaOf = this.areaOf(e.entity_id)
+      return areaOf !== undefined && areaOf.floor_id === entry.floor_id
+    })
+  }
+
+  /**
+   * Enabled entities of a device
+   *
+   * @param {string} deviceId
+   * @param {string} [domain]      Only the entities of this domain
+   * @returns {string[]}           entity_ids
+   * @memberof Registries
+   */
+  public entitiesForDevice(deviceId: string, domain?: string): string[] {
+    return this._enabledEntities(domain, (e) => e.device_id === deviceId)
+  }
+
+  /**
+   * Enabled entities with a label, or whose device has it
+   *
+   * @param {string} label         Label id or name
+   * @param {string} [domain]      Only the entities of this domain
+   * @returns {string[]}           entity_ids, empty when the label does not exist
+   * @memberof Registries
+   */
+  public entitiesWithLabel(label: string, domain?: string): string[] {
+    const entry = this.label(label)
+    if (!entry) {
+      return []
+    }
+    return this._enabledEntities(domain, (e) => {
+      const device = e.device_id ? this._devices.get(e.device_id) : undefined
+      return (e.labels || []).includes(entry.label_id) || (device !== undefined && (device.labels || []).includes(entry.label_id))
+    })
+  }
+
+  /**
+   * Devices of an area
+   *
+   * @param {string} area          Area id, name or alias
+   * @returns {IDeviceEntry[]}
+   * @memberof Registries
+   */
+  public devicesInArea(area: string): IDeviceEntry[] {
+    const entry = this.area(area)
+    return entry ? this.devices.filter((d) => d.area_id === entry.area_id) : []
+  }
+
+  /**
+   * Sorted entity_ids of the enabled entities matching a condition
+   *
+   * @private
+   * @param {(string | undefined)} domain
+   * @param {(entry: IEntityEntry) => boolean} matches
+   * @returns {string[]}
+   * @memberof Registries
+   */
+  private _enabledEntities(domain: string | undefined, matches: (entry: IEntityEntry) => boolean): string[] {
+    return this.entities
+      .filter((e) => !e.disabled_by && (!domain || e.entity_id.startsWith(`${domain}.`)) && matches(e))
+      .map((e) => e.entity_id)
+      .sort()
+  }
+
+  /**
+   * Fetch a registry and replace the stored one
+   *
+   * @private
+   * @param {IRegistryName} name
+   * @returns {Promise<void>}
+   * @memberof Registries
+   */
+  private async _fetch(name: IRegistryName): Promise<void> {
+    const entries = await this._connection.listRegistry(name) || []
+    switch (name) {
+      case 'entity':
+        this._entities = new Map(entries.map((e): [string, IEntityEntry] => [e.entity_id, e]))
+        break
+      case 'device':
+        this._devices = new Map(entries.map((e): [string, IDeviceEntry] => [e.id, e]))
+        break
+      case 'area':
+        this._areas = new Map(entries.map((e): [string, IAreaEntry] => [e.area_id, e]))
+        break
+      case 'floor':
+        this._floors = new Map(entries.map((e): [string, IFloorEntry] => [e.floor_id, e]))
+        break
+      case 'label':
+        this._labels = new Map(entries.map((e): [string, ILabelEntry] => [e.label_id, e]))
+        break
+    }
+    Logger.debug(`Loaded ${entries.length} entries of the ${name} registry`)
+  }
+}
+
+/**
+ * Find an entry by name or alias, case insensitive
+ *
+ * @template T
+ * @param {T[]} entries
+ * @param {string} name
+ * @returns {(T | undefined)}
+ */
+const findByName = <T extends { name: string, aliases?: string[] }>(entries: T[], name: string): T | undefined => {
+  const search = name.toLowerCase()
+  return entries.find((e) => e.name.toLowerCase() === search || (e.aliases || []).some((a) => a.toLowerCase() === search))
+}
+
+export default Registries
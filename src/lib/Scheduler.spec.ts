@@ -0,0 +1,112 @@
+import FakeTimers, { Clock } from '@sinonjs/fake-timers'
+import Scheduler from './Scheduler'
+
+describe('Scheduler', () => {
+  let clock: Clock
+  let scheduler: Scheduler
+  const owner = {}
+
+  beforeEach(() => {
+    clock = FakeTimers.createClock(0)
+    scheduler = new Scheduler({
+      now: () => clock.now,
+      setTimeout: (callback, milliseconds) => clock.setTimeout(callback, milliseconds),
+      clearTimeout: (handle) => clock.clearTimeout(handle)
+    })
+  })
+
+  it('runs the jobs in order of time, then of creation', () => {
+    const runs: string[] = []
+    scheduler.add(owner, 200, () => runs.push('c'), { type: 'timeout' })
+    scheduler.add(owner, 100, () => runs.push('a'), { type: 'timeout' })
+    scheduler.add(owner, 100, () => runs.push('b'), { type: 'timeout' })
+
+    clock.tick(150)
+    expect(runs).toEqual(['a', 'b'])
+    clock.tick(50)
+    expect(runs).toEqual(['a', 'b', 'c'])
+    expect(scheduler.jobs()).toEqual([])
+  })
+
+  it('repeats the jobs with a next time until it is null', () => {
+    const runs: number[] = []
+    scheduler.add(owner, 100, () => runs.push(clock.now), {
+      type: 'interval',
+      next: (time) => time < 300 ? time + 100 : null
+    })
+
+    clock.tick(1000)
+    expect(runs).toEqual([100, 200, 300])
+  })
+
+  it('cancels and reschedules jobs', () => {
+    const runs: string[] = []
+    const cancelled = scheduler.add(owner, 100, () => runs.push('cancelled'), { type: 'timeout' })
+    const moved = scheduler.add(owner, 100, () => runs.push('moved'), { type: 'timeout' })
+
+    expect(scheduler.cancel(cancelled)).toBe(true)
+    expect(scheduler.cancel(cancelled)).toBe(false)
+    expect(scheduler.reschedule(moved, 300)).toBe(true)
+
+    clock.tick(299)
+    expect(runs).toEqual([])
+    clock.tick(1)
+    expect(runs).toEqual(['moved'])
+    expect(scheduler.has(moved)).toBe(false)
+  })
+
+  it('lists and cancels the jobs of an owner', () => {
+    const other = {}
+    scheduler.add(owner, 200, () => undefined, { type: 'runAt', description: 'later' })
+    const first = scheduler.add(owner, 100, () => undefined, { type: 'timeout' })
+    scheduler.add(other, 100, () => undefined, { type: 'timeout' })
+
+    expect(scheduler.jobs(owner).map((job) => [job.id, job.type, job.time])).toEqual([
+      [first, 'timeout', new Date(100)],
+      [first - 1, 'runAt', new Date(200)]
+    ])
+    expect(scheduler.owners()).toEqual([owner, other])
+
+    expect(scheduler.cancelOwner(owner)).toBe(2)
+    expect(scheduler.owners()).toEqual([other])
+  })
+
+  it('keeps running the jobs after one throws', () => {
+    const runs: string[] = []
+    scheduler.add(owner, 100, () => { throw new Error('Failed') }, { type: 'timeout' })
+    scheduler.add(owner, 100, () => runs.push('next'), { type: 'timeout' })
+
+    clock.tick(100)
+    expect(runs).toEqual(['next'])
+  })
+
+  it('runs the jobs added by the callbacks on the next timer, even if they are due', () => {
+    // Frozen clock with timers run by hand
+    const timers: (() => void)[] = []
+    const frozen = new Scheduler({
+      now: () => 1000,
+      setTimeout: (callback) => timers.push(callback),
+      clearTimeout: () => undefined
+    })
+    let runs = 0
+    const loop = () => {
+      runs++
+      frozen.add(owner, 0, loop, { type: 'timeout' })
+    }
+    frozen.add(owner, 1000, loop, { type: 'timeout' })
+
+    timers.shift()!()
+    expect(runs).toBe(1)
+    expect(timers).toHaveLength(1)
+    timers.shift()!()
+    expect(runs).toBe(2)
+    expect(frozen.jobs(owner)).toHaveLength(1)
+  })
+
+  it('uses a single timer for every job', () => {
+    for (let i = 1; i <= 50; i++) {
+      scheduler.add(owner, i * 1000, () => undefined, { type: 'timeout' })
+    }
+    expect(clock.countTimers()).toBe(1)
+  })
+})
@@ -0,0 +1,425 @@
+import Logger from './Logger'
+
+// Longest delay accepted by setTimeout
+const MAX_TIMEOUT = 2147483647
+
+/**
+ * Source of time and timers of the scheduler
+ */
+export type IClock = {
+  now (): number
+  setTimeout (callback: () => void, milliseconds: number): any
+  clearTimeout (handle: any): void
+}
+
+export type IJobOptions = {
+  // Kind of job, shown when inspecting: timeout, interval, runAt, schedule...
+  type: string
+  // Details shown when inspecting, for example the cron expression
+  description?: string
+  // Time of the next run after one at the given time (it must be later), null to finish.
+  // The job runs once when omitted
+  next?: (time: number) => number | null
+}
+
+/**
+ * Pending job, as returned when inspecting the scheduler
+ */
+export type IJobInfo = {
+  id: number
+  owner: object
+  type: string
+  description?: string
+  // Next run, undefined while waiting to be scheduled
+  time?: Date
+}
+
+type IJob = {
+  id: number
+  owner: object
+  time: number
+  // Increased on every change of time, older heap entries are discarded
+  version: number
+  callback: () => void
+  options: IJobOptions
+}
+
+type IHeapEntry = {
+  time: number
+  version: number
+  job: IJob
+}
+
+const systemClock: IClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, milliseconds) => setTimeout(callback, milliseconds),
+  clearTimeout: (handle) => clearTimeout(handle)
+}
+
+/**
+ * Timers of all the automations, kept in a min-heap ordered by time
+ * and driven by a single timer set for the earliest one.
+ * Each job belongs to an owner (the automation) so they can be listed and cancelled together.
+ *
+ * @class Scheduler
+ */
+class Scheduler {
+  private _clock: IClock
+  private _jobs: Map<number, IJob> = new Map()
+  // Jobs by time. Cancelled and rescheduled entries are skipped when they reach the top
+  private _heap: IHeapEntry[] = []
+  private _owners: Map<object, Set<number>> = new Map()
+  private _jobId: number = 0
+  private _timer: any
+  private _timerTime?: number
+
+  private static _instance: Scheduler | undefined
+
+  /**
+   * Creates an instance of Scheduler.
+   *
+   * @param {IClock} [clock]     Time and timers, the system ones by default
+   * @memberof Scheduler
+   */
+  constructor(clock: IClock = systemClock) {
+    this._clock = clock
+  }
+
+  /**
+   * Get the shared instance
+   *
+   * @static
+   * @returns {Scheduler}
+   * @memberof Scheduler
+   */
+  public static getInstance(): Scheduler {
+    if (!Scheduler._instance) {
+      Scheduler._instance = new Scheduler()
+    }
+    return Scheduler._instance
+  }
+
+  /**
+   * Replace the shared instance (used by the test kit).
+   * Passing undefined creates a new one on the next getInstance call.
+   *
+   * @static
+   * @param {Scheduler} [instance]
+   * @memberof Scheduler
+   */
+  public static setInstance(instance?: Scheduler) {
+    Scheduler._instance = instance
+  }
+
+  /**
+   * Current time of the clock
+   *
+   * @returns {number}
+   * @memberof Scheduler
+   */
+  public now(): number {
+    return this._clock.now()
+  }
+
+  /**
+   * Add a job
+   *
+   * @param {object} owner               Automation (or any object) the job belongs to
+   * @param {number} time                Time of the first run, Infinity to schedule it later with reschedule
+   * @param {() => void} callback        Errors thrown are logged
+   * @param {IJobOptions} options
+   * @returns {number}                   Job id
+   * @memberof Scheduler
+   */
+  public add(owner: object, time: number, callback: () => void, options: IJobOptions): number {
+    const job = { id: ++this._jobId, owner, time, version: 0, callback, options }
+    this._jobs.set(job.id, job)
+    const ids = this._owners.get(owner)
+    if (ids) {
+      ids.add(job.id)
+    } else {
+      this._owners.set(owner, new Set([job.id]))
+    }
+    this._push(job)
+    return job.id
+  }
+
+  /**
+   * Change the time of the next run of a job
+   *
+   * @param {number} id
+   * @param {number} time
+   * @returns {boolean}                  False if the job does not exist
+   * @memberof Scheduler
+   */
+  public reschedule(id: number, time: number): boolean {
+    const job = this._jobs.get(id)
+    if (!job) {
+      return false
+    }
+    job.time = time
+    this._push(job)
+    return true
+  }
+
+  /**
+   * Remove a job
+   *
+   * @param {number} id
+   * @returns {boolean}                  False if the job does not exist
+   * @memberof Scheduler
+   */
+  public cancel(id: number): boolean {
+    const job = this._jobs.get(id)
+    if (!job) {
+      return false
+    }
+    this._jobs.delete(id)
+    const ids = this._owners.get(job.owner)
+    if (ids) {
+      ids.delete(id)
+      if (ids.size === 0) {
+        this._owners.delete(job.owner)
+      }
+    }
+    // Keep the heap from growing with cancelled entries
+    if (this._heap.length > 2 * this._jobs.size + 32) {
+      this._heap = this._heap.filter((entry) => this._isCurrent(entry))
+      this._heapify()
+    }
+    return true
+  }
+
+  /**
+   * Whether a job is pending
+   *
+   * @param {number} id
+   * @returns {boolean}
+   * @memberof Scheduler
+   */
+  public has(id: number): boolean {
+    return this._jobs.has(id)
+  }
+
+  /**
+   * Remove every job of an owner
+   *
+   * @param {object} owner
+   * @returns {number}                   Number of jobs removed
+   * @memberof Scheduler
+   */
+  public cancelOwner(owner: object): number {
+    const ids = Array.from(this._owners.get(owner) || [])
+    for (const id of ids) {
+      this.cancel(id)
+    }
+    return ids.length
+  }
+
+  /**
+   * Pending jobs, sorted by time
+   *
+   * @param {object} [owner]             Only the jobs of this owner
+   * @returns {IJobInfo[]}
+   * @memberof Scheduler
+   */
+  public jobs(owner?: object): IJobInfo[] {
+    const jobs = owner
+      ? Array.from(this._owners.get(owner) || []).map((id) => this._jobs.get(id) as IJob)
+      : Array.from(this._jobs.values())
+    return jobs
+      .sort((a, b) => a.time - b.time || a.id - b.id)
+      .map((job) => ({
+        id: job.id,
+        owner: job.owner,
+        type: job.options.type,
+        description: job.options.description,
+        time: isFinite(job.time) ? new Date(job.time) : undefined
+      }))
+  }
+
+  /**
+   * Owners with pending jobs
+   *
+   * @returns {object[]}
+   * @memberof Scheduler
+   */
+  public owners(): object[] {
+    return Array.from(this._owners.keys())
+  }
+
+  /**
+   * Run the jobs that were due when called and set the timer for the next one.
+   * Jobs added or rescheduled by the callbacks wait for that timer, even if they are due,
+   * so a job rescheduling itself without delay can not block the loop.
+   *
+   * @private
+   * @memberof Scheduler
+   */
+  private _run() {
+    this._timer = undefined
+    this._timerTime = undefined
+
+    const now = this._clock.now()
+    const due: IHeapEntry[] = []
+    while (this._heap.length > 0 && this._heap[0].time <= now) {
+      due.push(this._pop())
+    }
+
+    for (const entry of due) {
+      if (!this._isCurrent(entry)) {
+        continue
+      }
+      const job = entry.job
+      let next: number | null = null
+      try {
+        next = job.options.next ? job.options.next(job.time) : null
+      } catch (e) {
+        Logger.error(e)
+      }
+      if (next === null) {
+        this.cancel(job.id)
+      } else {
+        job.time = next
+        this._push(job, false)
+      }
+      try {
+        job.callback()
+      } catch (e) {
+        Logger.error(e)
+      }
+    }
+    this._arm()
+  }
+
+  /**
+   * Set the timer for the earliest job
+   *
+   * @private
+   * @memberof Scheduler
+   */
+  private _arm() {
+    while (this._heap.length > 0 && !this._isCurrent(this._heap[0])) {
+      this._pop()
+    }
+    const time = this._heap.length > 0 ? this._heap[0].time : Infinity
+    if (time === this._timerTime) {
+      return
+    }
+    if (this._timer !== undefined) {
+      this._clock.clearTimeout(this._timer)
+      this._timer = undefined
+      this._timerTime = undefined
+    }
+    if (!isFinite(time)) {
+      return
+    }
+    // Long delays are waited in several steps
+    const delay = Math.min(Math.max(time - this._clock.now(), 0), MAX_TIMEOUT)
+    this._timerTime = time
+    this._timer = this._clock.setTimeout(() => this._run(), delay)
+  }
+
+  /**
+   * Whether a heap entry is the current time of an existing job
+   *
+   * @private
+   * @memberof Scheduler
+   */
+  private _isCurrent(entry: IHeapEntry): boolean {
+    return this._jobs.get(entry.job.id) === entry.job && entry.job.version === entry.version
+  }
+
+  /**
+   * Add an entry to the heap
+   *
+   * @private
+   * @param {IJob} job
+   * @param {boolean} [arm=true]        Update the timer
+   * @memberof Scheduler
+   */
+  private _push(job: IJob, arm: boolean = true) {
+    const heap = this._heap
+    heap.push({ time: job.time, version: ++job.version, job })
+    let i = heap.length - 1
+    while (i > 0) {
+      const parent = Math.floor((i - 1) / 2)
+      if (!this._less(heap[i], heap[parent])) {
+        break
+      }
+      [heap[i], heap[parent]] = [heap[parent], heap[i]]
+      i = parent
+    }
+    if (arm) {
+      this._arm()
+    }
+  }
+
+  /**
+   * Remove the earliest entry of the heap
+   *
+   * @private
+   * @memberof Scheduler
+   */
+  private _pop(): IHeapEntry {
+    const heap = this._heap
+    const top = heap[0]
+    const last = heap.pop() as IHeapEntry
+    if (heap.length > 0) {
+      heap[0] = last
+      this._siftDown(0)
+    }
+    return top
+  }
+
+  /**
+   * Restore the heap order of all the entries
+   *
+   * @private
+   * @memberof Scheduler
+   */
+  private _heapify() {
+    for (let i = Math.floor(this._heap.length / 2) - 1; i >= 0; i--) {
+      this._siftDown(i)
+    }
+  }
+
+  /**
+   * Move an entry down to its place
+   *
+   * @private
+   * @param {number} i
+   * @memberof Scheduler
+   */
+  private _siftDown(i: number) {
+    const heap = this._heap
+    while (true) {
+      const left = 2 * i + 1
+      const right = left + 1
+      let smallest = i
+      if (left < heap.length && this._less(heap[left], heap[smallest])) {
+        smallest = left
+      }
+      if (right < heap.length && this._less(heap[right], heap[smallest])) {
+        smallest = right
+      }
+      if (smallest === i) {
+        return
+      }
+      [heap[i], heap[smallest]] = [heap[smallest], heap[i]]
+      i = smallest
+    }
+  }
+
+  /**
+   * Order of the entries: time, then creation
+   *
+   * @private
+   * @memberof Scheduler
+   */
+  private _less(a: IHeapEntry, b: IHeapEntry): boolean {
+    return a.time < b.time || (a.time === b.time && a.job.id < b.job.id)
+  }
+}
+
+export default Scheduler
@@ -0,0 +1,85 @@
+import path from 'path'
+import JsonFile from './JsonFile'
+import { getDataDir } from './config'
+
+/**
+ * Files of the data directory (DATA_DIR), shared by every automation.
+ * The same file always returns the same JsonFile, so its writes are kept in order
+ * across automation reloads.
+ *
+ * @class Storage
+ */
+class Storage {
+  readonly dir: string
+  private _files: Map<string, JsonFile<any>> = new Map()
+
+  private static _instance: Storage | undefined
+
+  /**
+   * Creates an instance of Storage.
+   *
+   * @param {string} [dir]         Data directory, DATA_DIR by default
+   * @memberof Storage
+   */
+  constructor(dir: string = getDataDir()) {
+    this.dir = dir
+  }
+
+  /**
+   * Get the shared instance
+   *
+   * @static
+   * @returns {Storage}
+   * @memberof Storage
+   */
+  public static getInstance(): Storage {
+    if (!Storage._instance) {
+      Storage._instance = new Storage()
+    }
+    return Storage._instance
+  }
+
+  /**
+   * Replace the shared instance (used by the test kit).
+   * Passing undefined creates a new one on the next getInstance call.
+   *
+   * @static
+   * @param {Storage} [instance]
+   * @memberof Storage
+   */
+  public static setInstance(instance?: Storage) {
+    Storage._instance = instance
+  }
+
+  /**
+   * Get a file of the data directory
+   *
+   * @template T
+   * @param {string} folder          Folder inside the data directory, for example: jobs
+   * @param {string} name            Any text, it is encoded to be a valid file name
+   * @param {T} defaultValue         Data when the file does not exist
+   * @returns {JsonFile<T>}
+   * @memberof Storage
+   */
+  public file<T>(folder: string, name: string, defaultValue: T): JsonFile<T> {
+    const filePath = path.join(this.dir, folder, `${encodeURIComponent(name)}.json`)
+    let file = this._files.get(filePath)
+    if (!file) {
+      file = new JsonFile(filePath, defaultValue)
+      this._files.set(filePath, file)
+    }
+    return file
+  }
+
+  /**
+   * Wait for the pending writes of every file
+   *
+   * @returns {Promise<void>}
+   * @memberof Storage
+   */
+  public async flush(): Promise<void> {
+    await Promise.all(Array.from(this._files.values()).map((file) => file.flush()))
+  }
+}
+
+export default Storage
@@ -0,0 +1,52 @@
+import { getHomeAssistantConfig } from './config'
+
+describe('getHomeAssistantConfig', () => {
+  const urls = (host: string) => {
+    const { websocketUrl, restUrl } = getHomeAssistantConfig({ HA_HOST: host, HA_TOKEN: 'token' })
+    return [websocketUrl, restUrl]
+  }
+
+  it('connects without TLS to http and ws urls', () => {
+    expect(urls('http://homeassistant.local:8123')).toEqual(['ws://homeassistant.local:8123/api/websocket', 'http://homeassistant.local:8123/api'])
+    expect(urls('ws://192.168.1.10:8123')).toEqual(['ws://192.168.1.10:8123/api/websocket', 'http://192.168.1.10:8123/api'])
+  })
+
+  it('connects through TLS to https and wss urls', () => {
+    expect(urls('https://example.duckdns.org')).toEqual(['wss://example.duckdns.org/api/websocket', 'https://example.duckdns.org/api'])
+    expect(urls('wss://example.duckdns.org:8443')).toEqual(['wss://example.duckdns.org:8443/api/websocket', 'https://example.duckdns.org:8443/api'])
+  })
+
+  it('connects through TLS to bare hosts', () => {
+    expect(urls('example.duckdns.org')).toEqual(['wss://example.duckdns.org/api/websocket', 'https://example.duckdns.org/api'])
+    expect(urls('192.168.1.10:8123')).toEqual(['wss://192.168.1.10:8123/api/websocket', 'https://192.168.1.10:8123/api'])
+  })
+
+  it('keeps the port and path of installations behind a reverse proxy, without repeating the API path', () => {
+    const expected = ['wss://example.com:8443/home/api/websocket', 'https://example.com:8443/home/api']
+    expect(urls('https://example.com:8443/home')).toEqual(expected)
+    expect(urls('https://example.com:8443/home/')).toEqual(expected)
+    expect(urls('https://example.com:8443/home/api')).toEqual(expected)
+    expect(urls('wss://example.com:8443/home/api/websocket')).toEqual(expected)
+  })
+
+  it('rejects other protocols', () => {
+    expect(() => urls('ftp://homeassistant.local')).toThrow('Unsupported protocol in HA_HOST: ftp:')
+  })
+
+  it('uses the Supervisor endpoints and token when SUPERVISOR_TOKEN is set without HA_HOST', () => {
+    expect(getHomeAssistantConfig({ SUPERVISOR_TOKEN: 'supervisor', HA_TOKEN: 'token' })).toMatchObject({
+      websocketUrl: 'ws://supervisor/core/websocket',
+      restUrl: 'http://supervisor/core/api',
+      token: 'supervisor',
+      supervisor: true
+    })
+  })
+
+  it('prefers HA_HOST and HA_TOKEN to the Supervisor', () => {
+    expect(getHomeAssistantConfig({ HA_HOST: 'http://homeassistant.local:8123', HA_TOKEN: 'token', SUPERVISOR_TOKEN: 'supervisor' })).toMatchObject({
+      websocketUrl: 'ws://homeassistant.local:8123/api/websocket',
+      token: 'token',
+      supervisor: false
+    })
+  })
+})
@@ -0,0 +1,53 @@
+import CronExpression from './cron'
+
+// Next runs after a date, as ISO strings
+const runs = (expression: string, timezone: string, after: string, count: number): string[] => {
+  const cron = new CronExpression(expression, timezone)
+  const result: string[] = []
+  let date = new Date(after)
+  for (let i = 0; i < count; i++) {
+    date = cron.next(date)
+    result.push(date.toISOString())
+  }
+  return result
+}
+
+describe('CronExpression', () => {
+  it('supports seconds, last day of the month, last and nth week days', () => {
+    expect(runs('*/20 * * * * *', 'UTC', '2021-01-01T00:00:00Z', 3))
+      .toEqual(['2021-01-01T00:00:20.000Z', '2021-01-01T00:00:40.000Z', '2021-01-01T00:01:00.000Z'])
+    expect(runs('0 0 L * *', 'UTC', '2021-01-15T00:00:00Z', 2)).toEqual(['2021-01-31T00:00:00.000Z', '2021-02-28T00:00:00.000Z'])
+    expect(runs('0 9 * * FRIL', 'UTC', '2021-01-01T00:00:00Z', 1)).toEqual(['2021-01-29T09:00:00.000Z'])
+    expect(runs('0 9 * * MON#2', 'UTC', '2021-01-01T00:00:00Z', 1)).toEqual(['2021-01-11T09:00:00.000Z'])
+  })
+
+  it('rejects invalid expressions and timezones', () => {
+    expect(() => new CronExpression('0 0 * *')).toThrow()
+    expect(() => new CronExpression('0 0 30 2 *')).toThrow()
+    expect(() => new CronExpression('0 0 * * *', 'Mars/Olympus_Mons')).toThrow('Invalid timezone "Mars/Olympus_Mons"')
+  })
+
+  describe('daylight saving time', () => {
+    it('follows the local time of the timezone across the shift', () => {
+      expect(runs('0 12 * * *', 'America/New_York', '2021-03-13T00:00:00Z', 2))
+        .toEqual(['2021-03-13T17:00:00.000Z', '2021-03-14T16:00:00.000Z'])
+    })
+
+    it('runs the local times skipped when clocks go forward as much later as the shift', () => {
+      // Europe/Madrid jumps from 02:00 to 03:00 on 2021-03-28: 02:30 runs at 03:30 CEST
+      expect(runs('30 2 * * *', 'Europe/Madrid', '2021-03-27T12:00:00Z', 2))
+        .toEqual(['2021-03-28T01:30:00.000Z', '2021-03-29T00:30:00.000Z'])
+    })
+
+    it('runs the local times repeated when clocks go back once, on the first occurrence', () => {
+      // Europe/Madrid goes back from 03:00 to 02:00 on 2021-10-31: 02:30 CEST and 02:30 CET
+      expect(runs('30 2 * * *', 'Europe/Madrid', '2021-10-30T12:00:00Z', 2))
+        .toEqual(['2021-10-31T00:30:00.000Z', '2021-11-01T01:30:00.000Z'])
+    })
+
+    it('runs hourly expressions on both occurrences of the repeated hour', () => {
+      expect(runs('30 * * * *', 'Europe/Madrid', '2021-10-30T23:00:00Z', 4))
+        .toEqual(['2021-10-30T23:30:00.000Z', '2021-10-31T00:30:00.000Z', '2021-10-31T01:30:00.000Z', '2021-10-31T02:30:00.000Z'])
+    })
+  })
+})
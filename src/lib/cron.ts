@@ -0,0 +1,353 @@
+type IFieldRange = {
+  min: number
+  max: number
+  names?: string[]
+}
+
+// second minute hour day-of-month month day-of-week
+const FIELDS: IFieldRange[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  { min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+]
+
+const MACROS: { [name: string]: string } = {
+  '@yearly': '0 0 0 1 1 *',
+  '@annually': '0 0 0 1 1 *',
+  '@monthly': '0 0 0 1 * *',
+  '@weekly': '0 0 0 * * 0',
+  '@daily': '0 0 0 * * *',
+  '@midnight': '0 0 0 * * *',
+  '@hourly': '0 0 * * * *'
+}
+
+// Expressions without matches in this many years are rejected (for example: 0 0 0 30 2 *)
+const MAX_YEARS = 8
+
+// Wider than any daylight saving shift, used to find the offsets around a local time
+const SHIFT_MARGIN = 12 * 3600 * 1000
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map()
+
+/**
+ * Local time of an instant in a timezone, as milliseconds of a UTC date with the same fields
+ *
+ * @param {number} time         Instant
+ * @param {string} timezone     IANA timezone
+ * @returns {number}
+ */
+const toLocal = (time: number, timezone: string): number => {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    } as Intl.DateTimeFormatOptions)
+    formatters.set(timezone, formatter)
+  }
+  const parts: { [type: string]: number } = {}
+  for (const part of formatter.formatToParts(new Date(time))) {
+    parts[part.type] = Number(part.value)
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+}
+
+/**
+ * Cron expression with its own timezone.
+ *
+ * Fields: [second] minute hour day-of-month month day-of-week
+ * The seconds field is optional, with 5 fields the jobs run at second 0.
+ * Each field accepts "*", "?", values, ranges (1-5), steps (*\/15, 10-40/10) and lists (1,15).
+ * Months and week days accept names (JAN, MON), Sunday is 0 or 7.
+ * "L" in day-of-month is the last day of the month, "5L" in day-of-week the last Friday
+ * and "1#2" the second Monday. When both day fields are restricted, either of them matches.
+ * Macros: @yearly, @monthly, @weekly, @daily and @hourly.
+ *
+ * Daylight saving time: local times skipped when clocks go forward run as much later as the shift
+ * (02:30 runs at 03:30). Local times repeated when clocks go back run once, on the first occurrence,
+ * unless the hour is "*", which runs on both.
+ *
+ * @class CronExpression
+ */
+class CronExpression {
+  readonly expression: string
+  readonly timezone: string
+
+  private _fields: Set<number>[] = []
+  private _lastDayOfMonth: boolean = false
+  // Week days with "L": last of the month
+  private _lastWeekDays: Set<number> = new Set()
+  // Week days with "#": nth of the month
+  private _nthWeekDays: { day: number, nth: number }[] = []
+  private _dayOfMonthRestricted: boolean
+  private _dayOfWeekRestricted: boolean
+  private _everyHour: boolean
+
+  /**
+   * Creates an instance of CronExpression.
+   *
+   * @param {string} expression     Cron expression
+   * @param {string} [timezone]     IANA timezone, for example: Europe/Madrid. Local timezone by default
+   * @memberof CronExpression
+   */
+  constructor(expression: string, timezone?: string) {
+    this.expression = expression
+    this.timezone = timezone || Intl.DateTimeFormat().resolvedOptions().timeZone
+    try {
+      toLocal(Date.now(), this.timezone)
+    } catch (e) {
+      throw new Error(`Invalid timezone "${this.timezone}"`)
+    }
+
+    const source = MACROS[expression.trim().toLowerCase()] || expression.trim()
+    const parts = source.split(/\s+/)
+    if (parts.length === 5) {
+      parts.unshift('0')
+    }
+    if (parts.length !== 6) {
+      throw this._error('5 or 6 fields expected')
+    }
+
+    this._dayOfMonthRestricted = !['*', '?'].includes(parts[3])
+    this._dayOfWeekRestricted = !['*', '?'].includes(parts[5])
+    this._everyHour = parts[2] === '*'
+
+    this._fields = parts.map((part, i) => this._parseField(part, i))
+    // Sunday can be 0 or 7
+    if (this._fields[5].delete(7)) {
+      this._fields[5].add(0)
+    }
+
+    // Reject expressions that never match
+    this.next(new Date())
+  }
+
+  /**
+   * First time after the given date matching the expression
+   *
+   * @param {Date} after
+   * @returns {Date}
+   * @memberof CronExpression
+   */
+  public next(after: Date): Date {
+    const afterTime = after.getTime()
+    // Local times are not ordered like instants around daylight saving changes:
+    // start with the earliest local time that can be after the date, and once found
+    // keep looking while later local times can still be earlier instants
+    const second = Math.floor(afterTime / 1000) * 1000
+    const minOffset = Math.min(...this._offsetsAround(toLocal(second, this.timezone)))
+    let local = second + minOffset
+    let best: number | undefined
+    let limit: number | undefined
+
+    while (true) {
+      local = this._nextLocal(local)
+      if (limit !== undefined && local > limit) {
+        return new Date(best as number)
+      }
+      for (const time of this._toInstants(local)) {
+        if (time > afterTime && (best === undefined || time < best)) {
+          best = time
+        }
+      }
+      if (best !== undefined && limit === undefined) {
+        const [offsetBefore, offsetAfter] = this._offsetsAround(local)
+        limit = local + Math.abs(offsetAfter - offsetBefore)
+      }
+      local += 1000
+    }
+  }
+
+  /**
+   * First local time matching the fields, from the given one
+   *
+   * @private
+   * @param {number} from         Local time
+   * @returns {number}
+   * @memberof CronExpression
+   */
+  private _nextLocal(from: number): number {
+    const [seconds, minutes, hours, , months] = this._fields
+    const date = new Date(from)
+    const maxYear = date.getUTCFullYear() + MAX_YEARS
+
+    while (date.getUTCFullYear() <= maxYear) {
+      if (!months.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1)
+        date.setUTCHours(0, 0, 0)
+      } else if (!this._matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1)
+        date.setUTCHours(0, 0, 0)
+      } else if (!hours.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0, 0)
+      } else if (!minutes.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1, 0)
+      } else if (!seconds.has(date.getUTCSeconds())) {
+        date.setUTCSeconds(date.getUTCSeconds() + 1)
+      } else {
+        return date.getTime()
+      }
+    }
+    throw this._error(`no matching date in ${MAX_YEARS} years`)
+  }
+
+  /**
+   * Check the day of month and day of week fields
+   *
+   * @private
+   * @param {Date} date           Local time
+   * @returns {boolean}
+   * @memberof CronExpression
+   */
+  private _matchesDay(date: Date): boolean {
+    const day = date.getUTCDate()
+    const weekDay = date.getUTCDay()
+    const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate()
+
+    const dayOfMonth = this._fields[3].has(day) || (this._lastDayOfMonth && day === lastDay)
+    const dayOfWeek = this._fields[5].has(weekDay) ||
+      (this._lastWeekDays.has(weekDay) && day + 7 > lastDay) ||
+      this._nthWeekDays.some((n) => n.day === weekDay && Math.ceil(day / 7) === n.nth)
+
+    if (this._dayOfMonthRestricted && this._dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek
+    }
+    if (this._dayOfMonthRestricted) {
+      return dayOfMonth
+    }
+    return this._dayOfWeekRestricted ? dayOfWeek : true
+  }
+
+  /**
+   * Instants of a local time: none when skipped by daylight saving, two when repeated
+   *
+   * @private
+   * @param {number} local        Local time
+   * @returns {number[]}
+   * @memberof CronExpression
+   */
+  private _toInstants(local: number): number[] {
+    const [offsetBefore, offsetAfter] = this._offsetsAround(local)
+    const instants = Array.from(new Set([local - offsetBefore, local - offsetAfter]))
+      .filter((time) => toLocal(time, this.timezone) === local)
+      .sort((a, b) => a - b)
+
+    if (instants.length === 0) {
+      // Skipped, run as much later as the shift
+      return [local - offsetBefore]
+    }
+    return this._everyHour ? instants : instants.slice(0, 1)
+  }
+
+  /**
+   * Offsets from UTC some hours before and after a local time
+   *
+   * @private
+   * @param {number} local        Local time
+   * @returns {number[]}
+   * @memberof CronExpression
+   */
+  private _offsetsAround(local: number): number[] {
+    return [local - SHIFT_MARGIN, local + SHIFT_MARGIN].map((time) => toLocal(time, this.timezone) - time)
+  }
+
+  /**
+   * Parse the values of a field
+   *
+   * @private
+   * @param {string} part         Field text
+   * @param {number} index        Field position
+   * @returns {Set<number>}
+   * @memberof CronExpression
+   */
+  private _parseField(part: string, index: number): Set<number> {
+    const { min, max } = FIELDS[index]
+    const values: Set<number> = new Set()
+
+    for (const item of part.toUpperCase().split(',')) {
+      if (index === 3 && item === 'L') {
+        this._lastDayOfMonth = true
+        continue
+      }
+      if (index === 5 && /^\w+L$/.test(item)) {
+        this._lastWeekDays.add(this._parseValue(item.slice(0, -1), index) % 7)
+        continue
+      }
+      if (index === 5 && /^\w+#\d$/.test(item)) {
+        const [day, nth] = item.split('#')
+        if (Number(nth) < 1 || Number(nth) > 5) {
+          throw this._error(`invalid week "${item}"`)
+        }
+        this._nthWeekDays.push({ day: this._parseValue(day, index) % 7, nth: Number(nth) })
+        continue
+      }
+
+      const [range, step, ...rest] = item.split('/')
+      if (rest.length > 0 || (step !== undefined && !/^\d+$/.test(step)) || step === '0') {
+        throw this._error(`invalid step in "${item}"`)
+      }
+      let from = min
+      let to = max
+      if (range !== '*' && range !== '?') {
+        const bounds = range.split('-')
+        if (bounds.length > 2) {
+          throw this._error(`invalid range "${item}"`)
+        }
+        from = this._parseValue(bounds[0], index)
+        // "10/5" means from 10 to the end
+        to = bounds.length === 2 ? this._parseValue(bounds[1], index) : (step !== undefined ? max : from)
+        if (from > to) {
+          throw this._error(`invalid range "${item}"`)
+        }
+      }
+      for (let value = from; value <= to; value += step !== undefined ? Number(step) : 1) {
+        values.add(value)
+      }
+    }
+    return values
+  }
+
+  /**
+   * Parse a number or name of a field
+   *
+   * @private
+   * @param {string} text
+   * @param {number} index        Field position
+   * @returns {number}
+   * @memberof CronExpression
+   */
+  private _parseValue(text: string, index: number): number {
+    const { min, max, names } = FIELDS[index]
+    const nameIndex = names ? names.indexOf(text) : -1
+    if (nameIndex >= 0) {
+      return nameIndex + (index === 4 ? 1 : 0)
+    }
+    if (!/^\d+$/.test(text) || Number(text) < min || Number(text) > max) {
+      throw this._error(`invalid value "${text}"`)
+    }
+    return Number(text)
+  }
+
+  /**
+   * Error for an invalid expression
+   *
+   * @private
+   * @param {string} reason
+   * @returns {Error}
+   * @memberof CronExpression
+   */
+  private _error(reason: string): Error {
+    return new Error(`Invalid cron expression "${this.expression}": ${reason}`)
+  }
+}
+
+export default CronExpression
@@ -0,0 +1,114 @@
+// tslint:disable:max-classes-per-file
+
+/**
+ * Base class of the errors raised by requests to Home Assistant
+ */
+export class RequestError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = this.constructor.name
+  }
+}
+
+/**
+ * Home Assistant answered the request with an error
+ */
+export class HomeAssistantError extends RequestError {
+  readonly code: string
+
+  constructor(code: string, message: string) {
+    super(`${code}: ${message}`)
+    this.code = code
+  }
+}
+
+/**
+ * The connection closed before Home Assistant answered the request
+ */
+export class ConnectionClosedError extends RequestError {
+  constructor(type: string) {
+    super(`Connection closed before receiving the response of ${type}`)
+  }
+}
+
+/**
+ * Home Assistant did not answer the request in time
+ */
+export class RequestTimeoutError extends RequestError {
+  readonly timeout: number
+
+  constructor(type: string, timeout: number) {
+    super(`No response of ${type} after ${timeout}ms`)
+    this.timeout = timeout
+  }
+}
+
+/**
+ * The request waited in the queue for a connection longer than allowed
+ */
+export class RequestExpiredError extends RequestError {
+  readonly maxAge: number
+
+  constructor(type: string, maxAge: number) {
+    super(`${type} discarded after waiting ${maxAge}ms for a connection`)
+    this.maxAge = maxAge
+  }
+}
+
+/**
+ * The entity does not exist in Home Assistant, or its state was not received yet
+ */
+export class EntityNotFoundError extends Error {
+  readonly entityId: string
+  // Existing entity_ids similar to the requested one
+  readonly suggestions: string[]
+
+  constructor(entityId: string, suggestions: string[] = []) {
+    const hint = suggestions.length > 0 ? `, did you mean ${suggestions.join(', ')}?` : ''
+    super(`${entityId} state not available${hint}`)
+    this.name = this.constructor.name
+    this.entityId = entityId
+    this.suggestions = suggestions
+  }
+}
+
+/**
+ * The entity did not reach the expected state in time
+ */
+export class StateTimeoutError extends Error {
+  readonly entityId: string
+  readonly timeout: number
+
+  constructor(entityId: string, timeout: number) {
+    super(`${entityId} did not reach the expected state after ${timeout}ms`)
+    this.name = this.constructor.name
+    this.entityId = entityId
+    this.timeout = timeout
+  }
+}
+
+/**
+ * The automation was destroyed while waiting for a state
+ */
+export class WaitCancelledError extends Error {
+  readonly entityId: string
+
+  constructor(entityId: string) {
+    super(`Stopped waiting for ${entityId}, the automation was destroyed`)
+    this.name = this.constructor.name
+    this.entityId = entityId
+  }
+}
+
+/**
+ * Home Assistant could not render the template
+ */
+export class TemplateError extends Error {
+  readonly template: string
+
+  constructor(template: string, message: string) {
+    super(`Error rendering template: ${message}`)
+    this.name = this.constructor.name
+    this.template = template
+  }
+}
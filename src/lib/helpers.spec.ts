@@ -0,0 +1,44 @@
+import buildState from '../testing/buildState'
+import { diffStates } from './helpers'
+
+describe('diffStates', () => {
+  const previous = buildState('light.kitchen', 'on', { brightness: 100, rgb_color: [255, 0, 0], effect: 'none' })
+
+  it('has the state value only when it changed', () => {
+    expect(diffStates(buildState('light.kitchen', 'off', undefined, previous), previous)).toEqual({
+      state: { from: 'on', to: 'off' },
+      attributes: {}
+    })
+    expect(diffStates(buildState('light.kitchen', 'on', { ...previous.attributes, brightness: 50 }, previous), previous)).toEqual({
+      attributes: { brightness: { from: 100, to: 50 } }
+    })
+  })
+
+  it('has the added and removed attributes, with undefined on the missing side', () => {
+    const newState = buildState('light.kitchen', 'on', { brightness: 100, rgb_color: [255, 0, 0], friendly_name: 'Kitchen' }, previous)
+
+    expect(diffStates(newState, previous).attributes).toEqual({
+      effect: { from: 'none', to: undefined },
+      friendly_name: { from: undefined, to: 'Kitchen' }
+    })
+  })
+
+  it('compares the attributes by value', () => {
+    const newState = buildState('light.kitchen', 'on', { brightness: 100, rgb_color: [255, 0, 0], effect: 'none' }, previous)
+    expect(diffStates(newState, previous)).toEqual({ attributes: {} })
+
+    const recolored = buildState('light.kitchen', 'on', { ...previous.attributes, rgb_color: [255, 0, 1] }, previous)
+    expect(diffStates(recolored, previous).attributes).toEqual({ rgb_color: { from: [255, 0, 0], to: [255, 0, 1] } })
+  })
+
+  it('has the state and every attribute of a new entity', () => {
+    expect(diffStates(previous, null)).toEqual({
+      state: { from: undefined, to: 'on' },
+      attributes: {
+        brightness: { from: undefined, to: 100 },
+        rgb_color: { from: undefined, to: [255, 0, 0] },
+        effect: { from: undefined, to: 'none' }
+      }
+    })
+  })
+})
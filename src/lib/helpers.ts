@@ -1,3 +1,83 @@
+import { IState, IStateDiff } from "../interfaces/IState";
+
 export function bound(min: number, max: number, value: number) {
     return Math.max(min, Math.min(max, value));
-}
\ No newline at end of file
+}
+
+/**
+ * Deep equality of JSON values (objects, arrays and primitives)
+ */
+export function isEqual(a: any, b: any): boolean {
+    if (a === b) {
+        return true;
+    }
+    if (a instanceof Date && b instanceof Date) {
+        return a.getTime() === b.getTime();
+    }
+    if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) {
+        return false;
+    }
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) {
+        return false;
+    }
+    return keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && isEqual(a[key], b[key]));
+}
+
+/**
+ * Changes between two states of an entity.
+ * Without old state (new entity) the state and every attribute are changed.
+ */
+export function diffStates(newState: IState, oldState: IState | null): IStateDiff {
+    const diff: IStateDiff = { attributes: {} };
+    if (!oldState || oldState.state !== newState.state) {
+        diff.state = { from: oldState ? oldState.state : undefined, to: newState.state };
+    }
+
+    const oldAttributes = (oldState && oldState.attributes) || {};
+    const newAttributes = newState.attributes || {};
+    const names = new Set([...Object.keys(oldAttributes), ...Object.keys(newAttributes)]);
+    for (const name of names) {
+        if (!isEqual(oldAttributes[name], newAttributes[name])) {
+            diff.attributes[name] = { from: oldAttributes[name], to: newAttributes[name] };
+        }
+    }
+    return diff;
+}
+
+/**
+ * States of entities without a value: disconnected devices, integrations not loaded...
+ */
+export function isUnavailable(state: string | undefined): boolean {
+    return state === 'unavailable' || state === 'unknown';
+}
+
+/**
+ * Number of single character insertions, deletions and substitutions to turn a text into another
+ */
+export function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Candidates closest to a text, to suggest them for typos.
+ * Only the ones differing in at most a third of the characters, closest first.
+ */
+export function closestMatches(text: string, candidates: string[], max: number = 3): string[] {
+    const maxDistance = Math.max(2, Math.floor(text.length / 3));
+    return candidates
+        .map((candidate) => ({ candidate, distance: levenshtein(text, candidate) }))
+        .filter((match) => match.distance <= maxDistance)
+        .sort((x, y) => x.distance - y.distance || x.candidate.localeCompare(y.candidate))
+        .slice(0, max)
+        .map((match) => match.candidate);
+}
@@ -0,0 +1,74 @@
+import FakeTimers, { InstalledClock } from '@sinonjs/fake-timers'
+import MQTT, { matchTopic } from './mqtt'
+import FakeMqttClient from '../testing/FakeMqttClient'
+
+describe('matchTopic', () => {
+  it('returns the segments matched by the wildcards', () => {
+    expect(matchTopic('zigbee2mqtt/+/action', 'zigbee2mqtt/button/action')).toEqual(['button'])
+    expect(matchTopic('zigbee2mqtt/#', 'zigbee2mqtt/button/action')).toEqual(['button/action'])
+    expect(matchTopic('zigbee2mqtt/#', 'zigbee2mqtt')).toEqual([''])
+    expect(matchTopic('zigbee2mqtt/+', 'zigbee2mqtt/button/action')).toBeNull()
+    expect(matchTopic('#', '$SYS/broker/uptime')).toBeNull()
+  })
+})
+
+describe('MQTT', () => {
+  let clock: InstalledClock
+  let client: FakeMqttClient
+  let mqttClient: MQTT
+
+  beforeEach(() => {
+    clock = FakeTimers.install({ toFake: ['Date'] })
+    client = new FakeMqttClient()
+    mqttClient = new MQTT(client)
+  })
+
+  afterEach(() => {
+    clock.uninstall()
+  })
+
+  it('shares the broker subscription of a topic', () => {
+    const first = mqttClient.subscribe('a/#', {qos: 0}, () => undefined)
+    const second = mqttClient.subscribe('a/#', {qos: 0}, () => undefined)
+    expect(Array.from(client.subscriptions)).toEqual(['a/#'])
+
+    mqttClient.unsubscribe(first.topic, first.id)
+    expect(Array.from(client.subscriptions)).toEqual(['a/#'])
+    mqttClient.unsubscribe(second.topic, second.id)
+    expect(client.subscriptions.size).toBe(0)
+  })
+
+  it('marks the sidecar offline before ending the connection', async () => {
+    await mqttClient.end()
+
+    expect(client.published.slice(-1)).toEqual([
+      { topic: mqttClient.config.statusTopic, payload: 'offline', options: { qos: 1, retain: true } }
+    ])
+    expect(client.ended).toBe(true)
+  })
+
+  describe('with overlapping filters', () => {
+    let received: string[]
+
+    beforeEach(() => {
+      received = []
+      mqttClient.subscribe('a/#', {qos: 0}, (topic, payload) => received.push(`a/# ${payload}`))
+      mqttClient.subscribe('a/+', {qos: 0}, (topic, payload, [b]) => received.push(`a/+ ${payload} ${b}`))
+    })
+
+    it('runs the callback of each matching filter once per message', () => {
+      client.receive('a/b', 'on')
+      expect(received).toEqual(['a/# on', 'a/+ on b'])
+
+      client.receive('a/b/c', 'on')
+      expect(received).toEqual(['a/# on', 'a/+ on b', 'a/# on'])
+    })
+
+    it('delivers two identical messages published 10 ms apart', () => {
+      client.receive('a/b', 'pressed')
+      clock.tick(10)
+      client.receive('a/b', 'pressed')
+      expect(received).toEqual(['a/# pressed', 'a/+ pressed b', 'a/# pressed', 'a/+ pressed b'])
+    })
+  })
+})
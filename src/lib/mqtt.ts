@@ -1,7 +1,8 @@
 import mqtt from 'mqtt'
 import Logger from './Logger';
+import { getMqttConfig, IMqttConfig } from './config';
 
-export type ISubscriptionCallback = (topic: string, payload: any) => void
+export type ISubscriptionCallback = (topic: string, payload: any, params: string[]) => void
 interface ISubscription {
   id: number
   callback: ISubscriptionCallback
@@ -12,30 +13,121 @@ interface INewSubscription {
   id: number
 }
 
+/**
+ * What MQTT uses of the mqtt client.
+ * Implemented by mqtt.Client and by the fake client of the test kit.
+ */
+export interface IMqttClient {
+  on (event: string, listener: (...args: any[]) => void): unknown
+  once (event: string, listener: (...args: any[]) => void): unknown
+  subscribe (topic: string, options: mqtt.IClientSubscribeOptions): unknown
+  unsubscribe (topic: string): unknown
+  publish (topic: string, payload: string, options: mqtt.IClientPublishOptions): unknown
+  end (force: boolean, options: object, callback: () => void): unknown
+}
+
+/**
+ * Match a topic against a subscription filter.
+ * Follows the MQTT wildcard rules: "+" matches exactly one level, "#" matches
+ * any number of levels (including the parent level) and topics starting with
+ * "$" are not matched by filters starting with a wildcard.
+ *
+ * @param   {string}  filter  Subscription filter, for example: zigbee2mqtt/+/action
+ * @param   {string}  topic   Topic of the received message
+ *
+ * @return  {string[] | null} Matched wildcard segments in order, or null if the topic does not match
+ */
+export function matchTopic (filter: string, topic: string): string[] | null {
+  if (filter === topic) {
+    return []
+  }
+
+  const filterLevels = filter.split('/')
+  const topicLevels = topic.split('/')
+
+  if (topic.startsWith('$') && /^[#+]$/.test(filterLevels[0])) {
+    return null
+  }
+
+  const params: string[] = []
+  for (let i = 0; i < filterLevels.length; i++) {
+    const level = filterLevels[i]
+    if (level === '#') {
+      params.push(topicLevels.slice(i).join('/'))
+      return params
+    }
+    if (i >= topicLevels.length) {
+      return null
+    }
+    if (level === '+') {
+      params.push(topicLevels[i])
+    } else if (level !== topicLevels[i]) {
+      return null
+    }
+  }
+
+  return filterLevels.length === topicLevels.length ? params : null
+}
+
+/**
+ * Check a subscription filter is well formed
+ *
+ * @param   {string}  filter  Subscription filter
+ *
+ * @return  {void}
+ */
+function validateFilter (filter: string) {
+  if (!filter) {
+    throw new Error('Empty mqtt subscription topic')
+  }
+  const levels = filter.split('/')
+  levels.forEach((level, i) => {
+    if (level.includes('#') && (level !== '#' || i !== levels.length - 1)) {
+      throw new Error(`Invalid mqtt subscription topic "${filter}": "#" must be the last level`)
+    }
+    if (level.includes('+') && level !== '+') {
+      throw new Error(`Invalid mqtt subscription topic "${filter}": "+" must occupy an entire level`)
+    }
+  })
+}
+
 /**
  * Manage the MQTT connection with the server
  */
 class MQTT {
 
-  private client: mqtt.Client
+  private client: IMqttClient
+  readonly config: IMqttConfig
   private subscriptions: Map<string, ISubscription[]> = new Map()
-  public static instance: MQTT
+  private lastId: number = 0
+  public static instance: MQTT | undefined
 
   /**
    * Initialize the connection
    *
+   * @param   {IMqttClient}  [client]  Already created client (used by the test kit)
+   *
    * @return  {MQTT}  Instance
    */
-  constructor () {
-    const uri = process.env.MQTT_URI || ''
-    const options = {
-      reconnectPeriod: 5000,
-      clientId: 'hass-sidecar'
+  constructor (client?: IMqttClient) {
+    this.config = getMqttConfig()
+    if (client) {
+      this.client = client
+    } else {
+      const options: mqtt.IClientOptions = {
+        reconnectPeriod: 5000,
+        clientId: 'hass-sidecar',
+        // The entities exposed to Home Assistant become unavailable if the sidecar dies
+        will: { topic: this.config.statusTopic, payload: 'offline', qos: 1, retain: true }
+      }
+      this.client = mqtt.connect(this.config.uri, options)
     }
-    this.client = mqtt.connect(uri, options)
     this.client.once('connect', () => {
       Logger.info('Conexión con MQTT')
     })
+    this.client.on('connect', () => {
+      this.publish(this.config.statusTopic, 'online', { qos: 1, retain: true })
+    })
 
     // Handle every message
     this.client.on('message', this.handleMessage.bind(this))
@@ -43,24 +135,32 @@ class MQTT {
 
   /**
    * Handle mqtt received message.
-   * Checks if has any subscription to this topic an invoke callback functions
+   * The packet is matched once against every subscription filter, and the callbacks of the
+   * matching ones are invoked once with the matched wildcard segments, even when several
+   * filters overlap (like "a/#" and "a/+/c"). Each packet received is a message, identical
+   * payloads are never dropped.
    *
    * @param   {string}  topic    topic
    * @param   {json}     message  message
    * @param   {json}     packet   received packet (extra information)
    *
-   * @return  {[type]}           [return description]
+   * @return  {void}
    */
   private handleMessage (topic: string, message: any, packet: any) {
-    if (this.subscriptions.has(topic)) {
-      const subs = this.subscriptions.get(topic)
-      if (subs) {
-        for (const s of subs) {
-          try {
-            s.callback(topic, message)
-          } catch (e) {
-            Logger.error(e)
-          }
+    const matches: { subs: ISubscription[], params: string[] }[] = []
+    this.subscriptions.forEach((subs, filter) => {
+      const params = matchTopic(filter, topic)
+      if (params) {
+        matches.push({ subs, params })
+      }
+    })
+
+    for (const { subs, params } of matches) {
+      for (const s of subs) {
+        try {
+          s.callback(topic, message, params)
+        } catch (e) {
+          Logger.error(e)
         }
       }
     }
@@ -80,8 +180,23 @@ class MQTT {
     return MQTT.instance
   }
 
+  /**
+   * Replace the singleton instance, so automations created afterwards use it.
+   * Passing undefined forces a new connection on the next getInstance call.
+   *
+   * @param   {MQTT}  [instance]  Instance to use
+   *
+   * @return  {void}
+   */
+  public static setInstance(instance?: MQTT) {
+    MQTT.instance = instance
+  }
+
   /**
    * Subscribe to topic
+   * Topics can contain "+" and "#" wildcards. The broker subscription is shared by
+   * every callback subscribed to the same topic and only the first subscription
+   * options are sent to the broker.
    *
    * @param {string}                          topic     Topic to subscribe
    * @param {mqtt.IClientSubscribeOptions}    options   Subscribe options
@@ -90,35 +205,16 @@ class MQTT {
    * @returns {INewSubscription}              New subscription identity
    */
   public subscribe(topic: string, options: mqtt.IClientSubscribeOptions, callback: ISubscriptionCallback): INewSubscription {
-    // At the moment, wildcards are not allowed in subscriptions.
-    // I think they are not necessary, but if in the future someone needs them, we will discuss their implementation.
-    if (/[#+\$]/.test(topic)) {
-      throw new Error('Not allowed wildcards on mqtt subscriptions')
-    }
-    this.client.subscribe(topic, options)
-
-    // Search for existent subscriptions to this topic and append this.
-    let id = 0
-    if (this.subscriptions.has(topic)) {
-      let subs = this.subscriptions.get(topic)
-      if (subs) {
-        id = subs.length
-        subs.push({
-          callback,
-          id,
-        })
-      } else {
-        subs = [
-          {
-            callback,
-            id
-          }
-        ]
-      }
-      this.subscriptions.set(topic, subs)
+    validateFilter(topic)
+
+    const id = ++this.lastId
+    const subs = this.subscriptions.get(topic)
+    if (subs) {
+      subs.push({ callback, id })
     } else {
-      // There are not previous subscriptions.
-      this.subscriptions.set(topic, [{callback, id}])
+      // There are not previous subscriptions, so subscribe on the broker.
+      this.client.subscribe(topic, options)
+      this.subscriptions.set(topic, [{ callback, id }])
     }
     return {topic, id}
   }
@@ -136,8 +232,23 @@ class MQTT {
     this.client.publish(topic, payload, options)
   }
 
+  /**
+   * Mark the sidecar offline in the status topic, so every entity exposed to Home Assistant
+   * becomes unavailable, and close the connection once the queued messages are sent
+   *
+   * @returns {Promise<void>}
+   * @memberof MQTT
+   */
+  public end(): Promise<void> {
+    this.publish(this.config.statusTopic, 'offline', { qos: 1, retain: true })
+    return new Promise((resolve) => {
+      this.client.end(false, {}, () => resolve())
+    })
+  }
+
   /**
    * Unsubscribe to topic
+   * When the last subscription of the topic is removed, it is unsubscribed from the broker
    *
    * @param {string} topic  topic to unsubscribe
    * @param {number} id     id of the subscription
@@ -155,6 +266,7 @@ class MQTT {
     subs = subs.filter(s => s.id !== id)
     if (subs.length === 0) {
       this.subscriptions.delete(topic)
+      this.client.unsubscribe(topic)
       return
     }
     this.subscriptions.set(topic, subs)
@@ -0,0 +1,46 @@
+import { getSunTime, horizonAt, nextSunTime } from './sun'
+
+const AMSTERDAM = { latitude: 52.3731339, longitude: 4.8903147, elevation: 0 }
+const HOUR = 3600 * 1000
+
+// Difference in minutes with the times published for the day
+const minutesFrom = (date: Date | null, expected: string) => Math.abs(date!.getTime() - Date.parse(expected)) / 60000
+
+describe('getSunTime', () => {
+  it('calculates the sunrise and sunset within 2 minutes', () => {
+    const summer = new Date('2021-06-21T12:00:00Z')
+    expect(minutesFrom(getSunTime(summer, AMSTERDAM, horizonAt(0), true), '2021-06-21T03:18:00Z')).toBeLessThan(2)
+    expect(minutesFrom(getSunTime(summer, AMSTERDAM, horizonAt(0), false), '2021-06-21T20:07:00Z')).toBeLessThan(2)
+
+    const winter = new Date('2021-12-21T12:00:00Z')
+    expect(minutesFrom(getSunTime(winter, AMSTERDAM, horizonAt(0), true), '2021-12-21T07:48:00Z')).toBeLessThan(2)
+    expect(minutesFrom(getSunTime(winter, AMSTERDAM, horizonAt(0), false), '2021-12-21T15:29:00Z')).toBeLessThan(2)
+  })
+
+  it('is null when the sun does not cross the elevation that day', () => {
+    const tromso = { latitude: 69.65, longitude: 18.96, elevation: 0 }
+    expect(getSunTime(new Date('2021-06-21T12:00:00Z'), tromso, horizonAt(0), false)).toBeNull()
+    expect(getSunTime(new Date('2021-12-21T12:00:00Z'), tromso, horizonAt(0), true)).toBeNull()
+  })
+})
+
+describe('nextSunTime', () => {
+  const sunset = getSunTime(new Date('2021-06-21T12:00:00Z'), AMSTERDAM, horizonAt(0), false)!
+  const nextSunset = getSunTime(new Date('2021-06-22T12:00:00Z'), AMSTERDAM, horizonAt(0), false)!
+
+  it('keeps the event of the previous day when its offset passes midnight', () => {
+    const next = nextSunTime(new Date('2021-06-22T00:00:00Z'), AMSTERDAM, horizonAt(0), false, 4 * HOUR)
+    expect(next).toEqual(new Date(sunset.getTime() + 4 * HOUR))
+    expect(next!.getUTCDate()).toBe(22)
+  })
+
+  it('moves to the next day once the event with its offset passed', () => {
+    const next = nextSunTime(new Date(sunset.getTime() + 4 * HOUR), AMSTERDAM, horizonAt(0), false, 4 * HOUR)
+    expect(next).toEqual(new Date(nextSunset.getTime() + 4 * HOUR))
+  })
+
+  it('applies negative offsets before the event', () => {
+    const sunrise = getSunTime(new Date('2021-06-21T12:00:00Z'), AMSTERDAM, horizonAt(0), true)!
+    expect(nextSunTime(new Date('2021-06-21T00:00:00Z'), AMSTERDAM, horizonAt(0), true, -HOUR)).toEqual(new Date(sunrise.getTime() - HOUR))
+  })
+})
@@ -0,0 +1,87 @@
+export type ILocation = {
+  latitude: number
+  longitude: number
+  // Meters above the sea level
+  elevation: number
+}
+
+// Sun elevation at sunrise and sunset, corrected by the refraction and the sun radius
+export const HORIZON = -0.833
+
+const RAD = Math.PI / 180
+const DAY_MS = 86400000
+const J1970 = 2440588
+const J2000 = 2451545
+const J0 = 0.0009
+// Obliquity of the Earth
+const OBLIQUITY = RAD * 23.4397
+// Days searched for the next event, for locations with polar days or nights
+const MAX_DAYS = 366
+
+/**
+ * Time of the day close to the date when the sun crosses an elevation.
+ * Based on the formulas of https://aa.quae.nl/en/reken/zonpositie.html
+ *
+ * @param {Date} date               Day to calculate
+ * @param {ILocation} location
+ * @param {number} elevation        Sun elevation in degrees
+ * @param {boolean} rising          Morning (true) or evening (false) crossing
+ * @returns {(Date | null)}         Null when the sun does not cross the elevation that day
+ */
+export const getSunTime = (date: Date, location: ILocation, elevation: number, rising: boolean): Date | null => {
+  const lw = RAD * -location.longitude
+  const phi = RAD * location.latitude
+  const days = date.getTime() / DAY_MS - 0.5 + J1970 - J2000
+
+  const cycle = Math.round(days - J0 - lw / (2 * Math.PI))
+  const approxTransit = (hourAngle: number) => J0 + (hourAngle + lw) / (2 * Math.PI) + cycle
+  const solarTransit = (approx: number, m: number, l: number) => J2000 + approx + 0.0053 * Math.sin(m) - 0.0069 * Math.sin(2 * l)
+
+  const ds = approxTransit(0)
+  const meanAnomaly = RAD * (357.5291 + 0.98560028 * ds)
+  const center = RAD * (1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly))
+  const eclipticLongitude = meanAnomaly + center + RAD * 102.9372 + Math.PI
+  const declination = Math.asin(Math.sin(OBLIQUITY) * Math.sin(eclipticLongitude))
+
+  const cosHourAngle = (Math.sin(RAD * elevation) - Math.sin(phi) * Math.sin(declination)) / (Math.cos(phi) * Math.cos(declination))
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return null
+  }
+
+  const noon = solarTransit(ds, meanAnomaly, eclipticLongitude)
+  const set = solarTransit(approxTransit(Math.acos(cosHourAngle)), meanAnomaly, eclipticLongitude)
+  const julian = rising ? noon - (set - noon) : set
+  return new Date((julian + 0.5 - J1970) * DAY_MS)
+}
+
+/**
+ * Next time, after a date, when the sun crosses an elevation plus an offset
+ *
+ * @param {Date} after
+ * @param {ILocation} location
+ * @param {number} elevation        Sun elevation in degrees
+ * @param {boolean} rising          Morning (true) or evening (false) crossing
+ * @param {number} [offsetMs]       Milliseconds to add to the crossing time
+ * @returns {(Date | null)}         Null when the sun does not cross the elevation in a year
+ */
+export const nextSunTime = (after: Date, location: ILocation, elevation: number, rising: boolean, offsetMs: number = 0): Date | null => {
+  // Start some days before so events of previous days with long offsets are considered
+  const firstDay = -Math.ceil(Math.abs(offsetMs) / DAY_MS) - 1
+  for (let day = firstDay; day <= MAX_DAYS; day++) {
+    const time = getSunTime(new Date(after.getTime() + day * DAY_MS), location, elevation, rising)
+    if (time && time.getTime() + offsetMs > after.getTime()) {
+      return new Date(time.getTime() + offsetMs)
+    }
+  }
+  return null
+}
+
+/**
+ * Sun elevation of sunrise and sunset seen from some height, which sees the sun earlier
+ *
+ * @param {number} height           Meters above the surroundings
+ * @returns {number}
+ */
+export const horizonAt = (height: number): number => {
+  return HORIZON - 2.076 * Math.sqrt(Math.max(height, 0)) / 60
+}
@@ -0,0 +1,57 @@
+import buildState from '../testing/buildState'
+import { generateTypings } from './typings'
+
+// Payloads of get_states and get_services, as Home Assistant sends them
+const states = [
+  buildState('switch.heater', 'off'),
+  buildState('light.kitchen', 'on', { brightness: 255 }),
+  buildState('light.porch', 'off'),
+  buildState('sensor.temperature', '21.5', { unit_of_measurement: '°C' }),
+  buildState('input_select.mode', 'eco', { options: ['eco', 'comfort'] })
+]
+
+const services = {
+  light: {
+    turn_on: {
+      description: 'Turns on one or more lights\n and adjusts their properties.',
+      fields: {
+        transition: { selector: { number: { min: 0, max: 300 } } },
+        rgb_color: { selector: { color_rgb: {} } },
+        advanced_fields: {
+          collapsed: true,
+          fields: {
+            flash: { description: "Tell the light to flash, it's optional", selector: { select: { options: ['long', 'short'] } } }
+          }
+        }
+      }
+    },
+    turn_off: {}
+  },
+  notify: {
+    'mobile_app_phone-2': {
+      fields: {
+        message: { required: true, selector: { text: {} } },
+        data: { selector: { object: {} } }
+      }
+    }
+  },
+  input_select: {
+    select_option: {
+      fields: {
+        option: { required: true, selector: { select: { options: [{ label: 'Eco', value: 'eco' }], custom_value: true } } }
+      }
+    }
+  }
+}
+
+describe('generateTypings', () => {
+  it('declares the entities and services of a get_states and get_services payload', () => {
+    const typings = generateTypings(states, services, {
+      entitiesModule: '../entities',
+      registryModule: '../interfaces/IRegistry',
+      source: 'http://homeassistant.local:8123'
+    })
+
+    expect(typings).toMatchSnapshot()
+  })
+})
@@ -0,0 +1,181 @@
+import { IState } from '../interfaces/IState'
+
+type ITypingsOptions = {
+  // Module of the entity handles, relative to the generated file
+  entitiesModule: string
+  // Module of the registries, relative to the generated file
+  registryModule: string
+  // Shown in the header, for example the url of Home Assistant
+  source?: string
+}
+
+// Handle class of the domains with their own one, the rest use Entity
+const ENTITY_CLASSES: { [domain: string]: string } = {
+  climate: 'ClimateEntity',
+  cover: 'CoverEntity',
+  fan: 'FanEntity',
+  input_boolean: 'InputBooleanEntity',
+  input_number: 'InputNumberEntity',
+  input_select: 'InputSelectEntity',
+  light: 'LightEntity',
+  lock: 'LockEntity',
+  media_player: 'MediaPlayerEntity',
+  scene: 'SceneEntity',
+  script: 'ScriptEntity',
+  switch: 'SwitchEntity'
+}
+
+/**
+ * Single quoted string literal
+ *
+ * @param {string} text
+ * @returns {string}
+ */
+const quote = (text: string): string => {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+/**
+ * Property name, quoted when it is not a valid identifier
+ *
+ * @param {string} name
+ * @returns {string}
+ */
+const propertyName = (name: string): string => {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name)
+}
+
+/**
+ * Single line comment from a description
+ *
+ * @param {string} [text]
+ * @param {string} indent
+ * @returns {string[]}
+ */
+const comment = (text: string | undefined, indent: string): string[] => {
+  const line = (text || '').replace(/\s+/g, ' ').trim()
+  return line ? [`${indent}// ${line}`] : []
+}
+
+/**
+ * TypeScript type of the values accepted by a service field, from its selector
+ *
+ * @param {*} selector
+ * @returns {string}
+ */
+const selectorType = (selector: any): string => {
+  const [kind] = Object.keys(selector || {})
+  const options = (selector && selector[kind]) || {}
+  const many = (type: string) => options.multiple ? `${type.includes('|') ? `(${type})` : type}[]` : type
+
+  switch (kind) {
+    case 'boolean':
+      return 'boolean'
+    case 'number':
+    case 'color_temp':
+      return 'number'
+    case 'text':
+    case 'template':
+    case 'time':
+    case 'date':
+    case 'datetime':
+    case 'icon':
+    case 'theme':
+    case 'conversation_agent':
+      return many('string')
+    case 'entity':
+    case 'device':
+    case 'area':
+    case 'floor':
+    case 'label':
+      return options.multiple ? 'string[]' : 'string | string[]'
+    case 'select': {
+      const values: any[] = (options.options || []).map((option: any) => typeof option === 'object' ? option.value : option)
+      const literals = values.filter((value) => typeof value === 'string').map(quote)
+      return many(literals.length > 0 && !options.custom_value ? literals.join(' | ') : 'string')
+    }
+    case 'color_rgb':
+      return '[number, number, number]'
+    case 'duration':
+      return '{ days?: number, hours?: number, minutes?: number, seconds?: number, milliseconds?: number }'
+    case 'location':
+      return '{ latitude: number, longitude: number, radius?: number }'
+    default:
+      return 'any'
+  }
+}
+
+/**
+ * Fields of a service, including the ones of collapsed sections
+ *
+ * @param {*} fields
+ * @returns {{ [name: string]: any }}
+ */
+const flattenFields = (fields: any): { [name: string]: any } => {
+  const flat: { [name: string]: any } = {}
+  for (const [name, field] of Object.entries<any>(fields || {})) {
+    if (field && field.fields && !field.selector) {
+      Object.assign(flat, flattenFields(field.fields))
+    } else {
+      flat[name] = field || {}
+    }
+  }
+  return flat
+}
+
+/**
+ * Typings of the entities and services of a Home Assistant instance.
+ * The generated declaration file fills the registries of interfaces/IRegistry
+ *
+ * @param {IState[]} states         Result of get_states
+ * @param {*} services              Result of get_services
+ * @param {ITypingsOptions} options
+ * @returns {string}                Content of the .d.ts file
+ */
+export const generateTypings = (states: IState[], services: any, options: ITypingsOptions): string => {
+  const entityIds = states.map((state) => state.entity_id).sort()
+  const domains: { [domain: string]: string[] } = {}
+  for (const entityId of entityIds) {
+    const domain = entityId.split('.')[0]
+    domains[domain] = [...(domains[domain] || []), entityId]
+  }
+  const classes = Array.from(new Set(['Entity', ...Object.keys(domains).map((domain) => ENTITY_CLASSES[domain] || 'Entity')])).sort()
+
+  const lines = [
+    `// Generated by "npm run codegen"${options.source ? ` from ${options.source}` : ''}. Do not edit, run it again instead`,
+    `import { ${classes.join(', ')} } from '${options.entitiesModule}'`,
+    '',
+    `declare module '${options.registryModule}' {`,
+    '  interface IEntityRegistry {'
+  ]
+  for (const entityId of entityIds) {
+    lines.push(`    ${quote(entityId)}: ${ENTITY_CLASSES[entityId.split('.')[0]] || 'Entity'}`)
+  }
+  lines.push('  }', '', '  interface IEntityIds {')
+  for (const domain of Object.keys(domains).sort()) {
+    lines.push(`    ${propertyName(domain)}: ${domains[domain].map(quote).join(' | ')}`)
+  }
+  lines.push('  }', '', '  interface IServiceRegistry {')
+  for (const domain of Object.keys(services || {}).sort()) {
+    lines.push(`    ${propertyName(domain)}: {`)
+    for (const service of Object.keys(services[domain]).sort()) {
+      const definition = services[domain][service] || {}
+      const fields = flattenFields(definition.fields)
+      lines.push(...comment(definition.description, '      '))
+      if (Object.keys(fields).length === 0) {
+        lines.push(`      ${propertyName(service)}: {}`)
+        continue
+      }
+      lines.push(`      ${propertyName(service)}: {`)
+      for (const name of Object.keys(fields).sort()) {
+        const field = fields[name]
+        lines.push(...comment(field.description, '        '))
+        lines.push(`        ${propertyName(name)}${field.required ? '' : '?'}: ${selectorType(field.selector)}`)
+      }
+      lines.push('      }')
+    }
+    lines.push('    }')
+  }
+  lines.push('  }', '}', '')
+  return lines.join('\n')
+}
@@ -0,0 +1,269 @@
+import FakeHomeAssistant from '../testing/FakeHomeAssistant'
+import buildState from '../testing/buildState'
+import { IState } from '../interfaces/IState'
+import API from './API'
+import WebsocketConnection from './websocketConnection'
+import { ConnectionClosedError, HomeAssistantError, RequestExpiredError, RequestTimeoutError } from './errors'
+
+const sleep = (milliseconds: number) => new Promise((resolve) => setTimeout(resolve, milliseconds))
+
+// Resolves when the check passes, polling it for up to 2 seconds
+const eventually = async (check: () => boolean) => {
+  for (let i = 0; i < 200; i++) {
+    if (check()) {
+      return
+    }
+    await sleep(10)
+  }
+  throw new Error('Condition not met in time')
+}
+
+const nextEvent = (connection: WebsocketConnection, event: string): Promise<any> => new Promise((resolve) => {
+  const listener = (message: any) => {
+    connection.removeEventListener(event, listener)
+    resolve(message)
+  }
+  connection.addEventListener(event, listener)
+})
+
+describe('WebsocketConnection with FakeHomeAssistant', () => {
+  let server: FakeHomeAssistant
+  let url: string
+  let connection: WebsocketConnection
+
+  const connect = (token: string = 'secret') => {
+    connection = new WebsocketConnection(url, token, { reconnectDelay: 10, heartbeatInterval: 0 })
+    return connection
+  }
+
+  beforeEach(async () => {
+    server = new FakeHomeAssistant({ token: 'secret', states: [buildState('light.kitchen', 'on')] })
+    url = await server.start()
+  })
+
+  afterEach(async () => {
+    if (connection) {
+      connection.end()
+    }
+    await server.stop()
+  })
+
+  describe('authentication', () => {
+    it('is ready once the token is accepted', async () => {
+      const authenticated = server.waitForConnection()
+      await nextEvent(connect(), 'ready')
+
+      expect((await authenticated).authenticated).toBe(true)
+      const states = await connection.getStates()
+      expect(states.map((s) => [s.entity_id, s.state])).toEqual([['light.kitchen', 'on']])
+    })
+
+    it('closes the connection when the token is rejected', async () => {
+      const ready = jest.fn()
+      connect('wrong').addEventListener('ready', ready)
+      await new Promise((resolve) => connection.onClose(resolve))
+
+      expect(ready).not.toHaveBeenCalled()
+      expect(server.commands).toEqual([])
+    })
+  })
+
+  describe('events', () => {
+    it('routes every event to the subscriptions of its type', async () => {
+      connect()
+      const stateChanges: any[] = []
+      const customEvents: any[] = []
+      await Promise.all([
+        connection.subscribeEvent('state_changed', (event) => stateChanges.push(event)),
+        connection.subscribeEvent('custom_event', (event) => customEvents.push(event))
+      ])
+
+      server.setState('light.kitchen', 'off')
+      server.fireEvent('custom_event', { button: 'up' })
+      await eventually(() => stateChanges.length + customEvents.length === 2)
+
+      expect(stateChanges.map((e) => [e.event_type, e.data.new_state.state])).toEqual([['state_changed', 'off']])
+      expect(customEvents.map((e) => [e.event_type, e.data])).toEqual([['custom_event', { button: 'up' }]])
+    })
+
+    it('subscribes again after a forced disconnect, without duplicating the subscriptions', async () => {
+      connect()
+      const stateChanges: any[] = []
+      await connection.subscribeEvent('state_changed', (event) => stateChanges.push(event))
+
+      const reconnected = server.waitForConnection()
+      server.disconnect()
+      const client = await reconnected
+      await eventually(() => client.subscriptions.size > 0)
+
+      server.setState('light.kitchen', 'off')
+      await eventually(() => stateChanges.length > 0)
+      await sleep(50)
+      expect(client.subscriptions.size).toBe(1)
+      expect(stateChanges).toHaveLength(1)
+    })
+
+    it('resolves a subscription interrupted by a disconnect once replayed, so it can be unsubscribed', async () => {
+      connect()
+      await nextEvent(connection, 'ready')
+      server.ignoreNext('subscribe_events')
+      const sent = server.waitForCommand('subscribe_events')
+      const subscription = connection.subscribeEvent('custom_event', () => undefined)
+      await sent
+
+      const reconnected = server.waitForConnection()
+      server.disconnect()
+      const client = await reconnected
+      const id = await subscription
+      expect(client.subscriptions.size).toBe(1)
+
+      await connection.unsubscribe(id)
+      expect(client.subscriptions.size).toBe(0)
+    })
+
+    it('rejects the subscriptions waiting for a connection when ended', async () => {
+      connect('wrong')
+      const subscription = connection.subscribeEvent('custom_event', () => undefined)
+      connection.end()
+
+      await expect(subscription).rejects.toBeInstanceOf(ConnectionClosedError)
+    })
+
+    it('stops the events of an unsubscribed subscription', async () => {
+      connect()
+      const events: any[] = []
+      const id = await connection.subscribeEvent('custom_event', (event) => events.push(event))
+      await connection.unsubscribe(id)
+
+      server.fireEvent('custom_event', {})
+      await sleep(50)
+      expect(events).toEqual([])
+    })
+  })
+
+  describe('errors', () => {
+    it('rejects with the error sent by Home Assistant', async () => {
+      connect()
+      server.failNext('call_service', { code: 'service_not_found', message: 'Service light.explode not found.' })
+
+      const error = await connection.callService('light', 'explode', {}).catch((e) => e)
+      expect(error).toBeInstanceOf(HomeAssistantError)
+      expect(error).toMatchObject({ code: 'service_not_found', message: 'service_not_found: Service light.explode not found.' })
+
+      await connection.callService('light', 'turn_on', { entity_id: 'light.kitchen' })
+      expect(server.serviceCalls).toEqual([
+        { domain: 'light', service: 'turn_on', service_data: { entity_id: 'light.kitchen' }, target: undefined }
+      ])
+    })
+
+    it('rejects the subscriptions refused by Home Assistant', async () => {
+      connect()
+      server.failNext('subscribe_events', { code: 'unauthorized', message: 'Unauthorized.' })
+
+      await expect(connection.subscribeEvent('custom_event', () => undefined)).rejects.toBeInstanceOf(HomeAssistantError)
+    })
+  })
+
+  describe('request queue', () => {
+    it('sends the requests made while disconnected once authenticated', async () => {
+      connect()
+      const states = connection.getStates()
+      expect((await states).map((s) => s.entity_id)).toEqual(['light.kitchen'])
+
+      await new Promise((resolve) => {
+        connection.onClose(resolve)
+        server.disconnect()
+      })
+      await connection.callService('light', 'turn_off', { entity_id: 'light.kitchen' })
+      expect(server.serviceCalls.map((call) => call.service)).toEqual(['turn_off'])
+    })
+
+    it('discards the requests that wait longer than their maximum age', async () => {
+      connect('wrong')
+
+      const error = await connection.callService('light', 'turn_on', {}, { maxAge: 50 }).catch((e) => e)
+      expect(error).toBeInstanceOf(RequestExpiredError)
+      expect(error).toMatchObject({ maxAge: 50, message: 'call_service discarded after waiting 50ms for a connection' })
+    })
+
+    it('times out the requests without response', async () => {
+      connect()
+      server.ignoreNext('get_states')
+
+      const error = await connection.getStates({ timeout: 50 }).catch((e) => e)
+      expect(error).toBeInstanceOf(RequestTimeoutError)
+      expect(error).toMatchObject({ timeout: 50, message: 'No response of get_states after 50ms' })
+    })
+
+    it('rejects the sent requests when the connection closes', async () => {
+      connect()
+      server.ignoreNext('call_service')
+      const sent = server.waitForCommand('call_service')
+      const call = connection.callService('light', 'turn_on', {})
+      await sent
+
+      server.disconnect()
+      await expect(call).rejects.toBeInstanceOf(ConnectionClosedError)
+    })
+
+    it('rejects the requests once ended', async () => {
+      connect('wrong')
+      const queued = connection.getStates()
+      connection.end()
+
+      await expect(queued).rejects.toBeInstanceOf(ConnectionClosedError)
+      await expect(connection.getStates()).rejects.toBeInstanceOf(ConnectionClosedError)
+    })
+  })
+
+  describe('API', () => {
+    let api: API
+
+    beforeEach(async () => {
+      api = new API({ connection: connect(), autoload: false })
+      await eventually(() => api.currentState('light.kitchen') !== undefined)
+    })
+
+    it('syncs the states and notifies their changes', async () => {
+      const changes: [string, string | undefined][] = []
+      api.onState('light.kitchen', (newState: IState, oldState: IState | null) => {
+        changes.push([newState.state, oldState ? oldState.state : undefined])
+      })
+
+      server.setState('light.kitchen', 'off')
+      await eventually(() => changes.length > 0)
+      expect(changes).toEqual([['off', 'on']])
+      expect(api.currentState('light.kitchen')!.state).toBe('off')
+    })
+
+    it('removes an event subscription interrupted by a disconnect', async () => {
+      server.ignoreNext('subscribe_events')
+      const sent = server.waitForCommand('subscribe_events')
+      const listener = api.onEvent('custom_event', () => undefined)
+      await sent
+
+      const reconnected = server.waitForConnection()
+      server.disconnect()
+      const client = await reconnected
+      await eventually(() => Array.from(client.subscriptions.values()).includes('custom_event'))
+
+      api.clearOnEvent(listener.eventType, listener.id)
+      await eventually(() => !Array.from(client.subscriptions.values()).includes('custom_event'))
+    })
+
+    it('calls services and fires events through the connection', async () => {
+      const events: any[] = []
+      api.onEvent('custom_event', (event) => events.push(event.data))
+      await eventually(() => server.commands.some((c) => c.type === 'subscribe_events' && c.event_type === 'custom_event'))
+
+      await api.callService('light', 'turn_on', 'light.kitchen', { brightness: 100 })
+      await api.fireEvent('custom_event', { button: 'up' })
+      await eventually(() => events.length > 0)
+
+      expect(server.serviceCalls.map((call) => [call.service, call.service_data])).toEqual([
+        ['turn_on', { entity_id: 'light.kitchen', brightness: 100 }]
+      ])
+      expect(events).toEqual([{ button: 'up' }])
+    })
+  })
+})
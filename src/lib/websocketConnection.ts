@@ -1,34 +1,105 @@
 import ws from 'ws'
 import { EventEmitter } from 'events'
 import { IState } from '../interfaces/IState'
+import { ICloseCallback, IConnection, IRequestOptions } from '../interfaces/IConnection'
 import Logger from './Logger';
+import { ConnectionClosedError, HomeAssistantError, RequestExpiredError, RequestTimeoutError } from './errors'
+
+type IConnectionOptions = {
+  // Delay before the first reconnection attempt, doubled on every failed attempt
+  reconnectDelay?: number
+  // Maximum delay between reconnection attempts
+  maxReconnectDelay?: number
+  // Default time to wait for the response of a request
+  requestTimeout?: number
+  // Default time a request can wait in the queue while disconnected
+  queueMaxAge?: number
+  // Time between pings to detect dead connections, 0 disables them
+  heartbeatInterval?: number
+  // Consecutive pings without pong before the connection is considered dead
+  maxMissedPongs?: number
+  // Custom certificate authorities to trust
+  ca?: Buffer | string
+  // False to accept invalid or self-signed certificates
+  rejectUnauthorized?: boolean
+}
+
+type IRequest = {
+  message: any
+  resolve: (result: any) => void
+  reject: (error: Error) => void
+  timeout: number
+  // Timeout of the queue while disconnected, and of the response once sent
+  timer?: NodeJS.Timeout
+  // Called with the id assigned to the message, before sending it
+  onSend?: (id: number) => void
+}
 
-type ICloseCallback = () => void
+type ISubscription = {
+  // Stable id, the id of the message changes on every reconnection
+  id: number
+  message: any
+  callback: (message: any) => void
+  // Id of the message that created the subscription on the current connection
+  messageId?: number
+  // Promise of a subscription waiting for a connection, settled when it is sent again
+  pending?: { resolve: (result: any) => void, reject: (error: Error) => void }
+}
 
 /**
  * Class to manage the websocket connection with Home Assistant
  */
-class WebsocketConnection {
+class WebsocketConnection implements IConnection {
   private _uri: string
   private _token: string
   private _conn!: ws
   private _listeners: EventEmitter
   private _id: number = 0
-  private _promises: Map<number, { resolve: (message: any) => void, reject: (error: Error) => void }>
+  private _promises: Map<number, IRequest>
+  // Requests waiting for an authenticated connection
+  private _queue: IRequest[] = []
+  private _authenticated: boolean = false
   private _eventSubscribers: Map<number, (message: any) => void>
+  // Subscriptions made since the instance was created, replayed after every reconnection
+  private _subscriptions: ISubscription[] = []
+  private _subscriptionId: number = 0
   private _onCloseEvents: ICloseCallback[] = []
+  private _reconnectDelay: number
+  private _maxReconnectDelay: number
+  private _reconnectAttempts: number = 0
+  private _requestTimeout: number
+  private _queueMaxAge: number
+  private _heartbeatInterval: number
+  private _maxMissedPongs: number
+  private _missedPongs: number = 0
+  private _heartbeat?: NodeJS.Timeout
+  private _tlsOptions: ws.ClientOptions
+  private _reconnectTimer?: NodeJS.Timeout
+  // Closed with end(), it will not reconnect anymore
+  private _ended: boolean = false
 
   /**
    * Constructor. Initializes the class
    *
-   * @param   {string}  host   Home assistant host or ip:port
+   * @param   {string}  host   Home assistant host or ip:port, or the full ws(s):// url of the websocket API
    * @param   {string}  token  Token provided by Home Assistant
+   * @param   {IConnectionOptions}  [options]  Reconnection, request and TLS options
    *
    * @return  {WebsocketConnection}         Returns the instance
    */
-  public constructor(host: string, token: string) {
-    this._uri = `wss://${host}/api/websocket`
+  public constructor(host: string, token: string, options: IConnectionOptions = {}) {
+    this._uri = /^wss?:\/\//.test(host) ? host : `wss://${host}/api/websocket`
     this._token = token
+    this._reconnectDelay = options.reconnectDelay || 1000
+    this._maxReconnectDelay = options.maxReconnectDelay || 60000
+    this._requestTimeout = options.requestTimeout || 30000
+    this._queueMaxAge = options.queueMaxAge !== undefined ? options.queueMaxAge : 60000
+    this._heartbeatInterval = options.heartbeatInterval !== undefined ? options.heartbeatInterval : 30000
+    this._maxMissedPongs = options.maxMissedPongs || 2
+    this._tlsOptions = {
+      ca: options.ca,
+      rejectUnauthorized: options.rejectUnauthorized !== false
+    }
 
     // All the listeners, promises and eventSubscribers will be estored in these properties for easy delete
     this._listeners = new EventEmitter()
@@ -45,7 +116,7 @@ class WebsocketConnection {
    */
   private _createConnection(): void {
     // Lets connect throw websockets
-    this._conn = new ws(this._uri)
+    this._conn = new ws(this._uri, this._tlsOptions)
 
     /**
      * When connection error occurs, close the connection and print log
@@ -61,15 +132,25 @@ class WebsocketConnection {
 
     /**
      * When the connection is closed it's time to clean up the house calling all _closeEvents callbacks
-     * Then set timeout to reconnect every 5 seconds.
+     * Then set timeout to reconnect, doubling the delay on each failed attempt, unless it was ended.
      */
     this._conn.on('close', (code) => {
       Logger.error(`Connection with Homeassistant closed - ${code}`)
+      this._authenticated = false
+      this._stopHeartbeat()
       try {
         this._conn.close()
       } catch (e) {
         Logger.error(e)
       }
+
+      // Responses of the sent requests will never arrive
+      const pending = Array.from(this._promises.values())
+      this._promises = new Map()
+      for (const request of pending) {
+        this._reject(request, new ConnectionClosedError(request.message.type))
+      }
+
       for (const callback of this._onCloseEvents) {
         try {
           callback()
@@ -78,10 +159,17 @@ class WebsocketConnection {
         }
       }
 
-      setTimeout(() => {
+      if (this._ended) {
+        return
+      }
+      const delay = Math.min(this._maxReconnectDelay, this._reconnectDelay * Math.pow(2, this._reconnectAttempts))
+      this._reconnectAttempts++
+      Logger.info(`Reconnecting in ${delay}ms`)
+      this._reconnectTimer = setTimeout(() => {
+        this._reconnectTimer = undefined
         Logger.info('Reconnecting')
         this._createConnection()
-      }, 5000)
+      }, delay)
     })
 
     /**
@@ -138,45 +226,151 @@ class WebsocketConnection {
    * Get all entities states
    * Tells to Home Assistant to send all the states updated
    *
+   * @param   {IRequestOptions}  [options]  Request options
+   *
    * @return  {Promise<IState>[]} Returns a promise resolved with an array os IState
    */
-  public getStates(): Promise<IState[]> {
-    return new Promise((resolve, reject) => {
-      const message = {
-        id: ++this._id,
-        type: 'get_states'
-      }
+  public getStates(options?: IRequestOptions): Promise<IState[]> {
+    return this._request({ type: 'get_states' }, options)
+  }
 
-      this._promises.set(message.id, { resolve, reject })
-      this._conn.send(JSON.stringify(message))
-    })
+  /**
+   * Get the Home Assistant configuration: location, units, time zone, version...
+   *
+   * @param   {IRequestOptions}  [options]  Request options
+   *
+   * @return  {Promise<any>}                Promise with the configuration
+   */
+  public getConfig(options?: IRequestOptions): Promise<any> {
+    return this._request({ type: 'get_config' }, options)
+  }
+
+  /**
+   * Get the services of every domain, with the description of their fields
+   *
+   * @param   {IRequestOptions}  [options]  Request options
+   *
+   * @return  {Promise<any>}                Promise with the services by domain and name
+   */
+  public getServices(options?: IRequestOptions): Promise<any> {
+    return this._request({ type: 'get_services' }, options)
+  }
+
+  /**
+   * Get the entries of a registry
+   *
+   * @param   {string}           registry   entity, device, area, floor or label
+   * @param   {IRequestOptions}  [options]  Request options
+   *
+   * @return  {Promise<any[]>}              Promise with the entries
+   */
+  public listRegistry(registry: string, options?: IRequestOptions): Promise<any[]> {
+    return this._request({ type: `config/${registry}_registry/list` }, options)
+  }
+
+  /**
+   * Get the recorded states of some entities in a period, in the compressed format
+   *
+   * @param   {any}              query      Fields of history/history_during_period: entity_ids, start_time, end_time...
+   * @param   {IRequestOptions}  [options]  Request options
+   *
+   * @return  {Promise<any>}                Promise with the states by entity_id
+   */
+  public getHistory(query: any, options?: IRequestOptions): Promise<any> {
+    return this._request({ type: 'history/history_during_period', ...query }, options)
+  }
+
+  /**
+   * Get the long term statistics of a period
+   *
+   * @param   {any}              query      Fields of recorder/statistics_during_period: statistic_ids, period, start_time...
+   * @param   {IRequestOptions}  [options]  Request options
+   *
+   * @return  {Promise<any>}                Promise with the statistics by statistic_id
+   */
+  public getStatistics(query: any, options?: IRequestOptions): Promise<any> {
+    return this._request({ type: 'recorder/statistics_during_period', ...query }, options)
   }
 
   /**
    * Subscribe to Home Assistant event
+   * The subscription is kept across reconnections
    *
    * @param   {string}        event     Evento to subscribe, for example "state_changed"
    * @param   {function}      callback  Callback function
    *
-   * @return  {Promise<any>}            Promise with the result of subscription
+   * @return  {Promise<number>}         Promise with the subscription id, to unsubscribe
    */
-  public subscribeEvent(event: string, callback: (message: any) => void): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const id = ++this._id
-      const message: any = {
-        id,
-        type: 'subscribe_events',
-        event_type: event
-      }
+  public subscribeEvent(event: string, callback: (message: any) => void): Promise<number> {
+    return this._subscribe({
+      type: 'subscribe_events',
+      event_type: event
+    }, callback)
+  }
 
-      if (typeof callback === 'function') {
-        message.event_type = event
-      }
+  /**
+   * Subscribe to the rendering of a template.
+   * The first event has the current result, then one more each time it changes.
+   * Errors of the template arrive as events with error and level
+   *
+   * @param   {string}    template   Jinja template
+   * @param   {any}       variables  Variables available in the template
+   * @param   {function}  callback   Callback of the render events
+   *
+   * @return  {Promise<number>}      Promise with the subscription id, to unsubscribe
+   */
+  public subscribeTemplate(template: string, variables: any, callback: (message: any) => void): Promise<number> {
+    return this._subscribe({
+      type: 'render_template',
+      template,
+      variables,
+      report_errors: true
+    }, callback)
+  }
+
+  /**
+   * Remove a subscription
+   *
+   * @param   {number}  subscriptionId  Id returned when subscribing
+   *
+   * @return  {Promise<void>}           Promise resolved when Home Assistant confirms it
+   */
+  public async unsubscribe(subscriptionId: number): Promise<void> {
+    const subscription = this._subscriptions.find((s) => s.id === subscriptionId)
+    if (!subscription) {
+      return
+    }
+    this._subscriptions = this._subscriptions.filter((s) => s !== subscription)
+    if (subscription.pending) {
+      subscription.pending.resolve(subscription.id)
+    }
 
-      this._eventSubscribers.set(id, callback)
-      this._promises.set(id, { resolve, reject })
-      this._conn.send(JSON.stringify(message))
+    if (!this._authenticated || subscription.messageId === undefined) {
+      return
+    }
+    const messageId = subscription.messageId
+    await this._request({
+      type: 'unsubscribe_events',
+      subscription: messageId
     })
+    this._eventSubscribers.delete(messageId)
+  }
+
+  /**
+   * Fire an event on the Home Assistant event bus
+   *
+   * @param   {string}  eventType  Event type
+   * @param   {any}     data       Event data
+   * @param   {IRequestOptions}  [options]  Request options
+   *
+   * @return  {Promise<any>}       Promise with the result
+   */
+  public fireEvent(eventType: string, data: any, options?: IRequestOptions): Promise<any> {
+    return this._request({
+      type: 'fire_event',
+      event_type: eventType,
+      event_data: data
+    }, options)
   }
 
   /**
@@ -185,22 +379,17 @@ class WebsocketConnection {
    * @param   {string}    domain      Domain of the service, for example: "light"
    * @param   {string}    service     Service to call in that domain, for example: "turn_on"
    * @param   {object}    attributes  JSON object with attributes (each service has his owns), for example: {transition: 3}
+   * @param   {IRequestOptions}  [options]  Request options
    *
    * @return  {Promise<any>}              Promise with the result
    */
-  public callService(domain: string, service: string, attributes: any) {
-    return new Promise((resolve, reject) => {
-      const message = {
-        id: ++this._id,
-        type: 'call_service',
-        domain,
-        service,
-        service_data: attributes
-      }
-
-      this._conn.send(JSON.stringify(message))
-      this._promises.set(message.id, { resolve, reject })
-    })
+  public callService(domain: string, service: string, attributes: any, options?: IRequestOptions): Promise<any> {
+    return this._request({
+      type: 'call_service',
+      domain,
+      service,
+      service_data: attributes
+    }, options)
   }
 
   /**
@@ -215,6 +404,279 @@ class WebsocketConnection {
     return this
   }
 
+  /**
+   * Close the connection for good, without reconnecting.
+   * Pending and queued requests, and the subscriptions waiting for a connection,
+   * are rejected with ConnectionClosedError.
+   *
+   * @return  {void}
+   */
+  public end(): void {
+    this._ended = true
+    if (this._reconnectTimer) {
+      clearTimeout(this._reconnectTimer)
+      this._reconnectTimer = undefined
+    }
+
+    const queue = this._queue
+    this._queue = []
+    for (const request of queue) {
+      this._reject(request, new ConnectionClosedError(request.message.type))
+    }
+    for (const subscription of this._subscriptions) {
+      const pending = subscription.pending
+      subscription.pending = undefined
+      if (pending) {
+        pending.reject(new ConnectionClosedError(subscription.message.type))
+      }
+    }
+    try {
+      this._conn.close()
+    } catch (e) {
+      Logger.error(e)
+    }
+  }
+
+  /**
+   * Register a subscription, kept across reconnections
+   *
+   * @param   {any}       message   Subscription command without id
+   * @param   {function}  callback  Callback of the events
+   *
+   * @return  {Promise<number>}     Promise with the subscription id
+   */
+  private _subscribe(message: any, callback: (message: any) => void): Promise<number> {
+    const subscription: ISubscription = {
+      id: ++this._subscriptionId,
+      message,
+      callback
+    }
+    this._subscriptions.push(subscription)
+
+    if (this._authenticated) {
+      return this._sendSubscription(subscription)
+    }
+    // It will be sent with the rest of subscriptions once authenticated
+    return new Promise((resolve, reject) => {
+      subscription.pending = { resolve, reject }
+    })
+  }
+
+  /**
+   * Send a subscription command, routing its events to the callback.
+   * When the connection closes before the response, the subscription is replayed on the next one,
+   * so the promise waits for it instead of being rejected: its id is needed to unsubscribe
+   *
+   * @param   {ISubscription}  subscription  Subscription to send
+   *
+   * @return  {Promise<number>}              Promise with the subscription id
+   */
+  private async _sendSubscription(subscription: ISubscription): Promise<number> {
+    try {
+      await this._request(subscription.message, {}, (id) => {
+        subscription.messageId = id
+        this._eventSubscribers.set(id, subscription.callback)
+      })
+    } catch (e) {
+      // Rejected by Home Assistant, it would be rejected again on every reconnection
+      if (e instanceof HomeAssistantError) {
+        this._subscriptions = this._subscriptions.filter((s) => s !== subscription)
+        if (subscription.messageId !== undefined) {
+          this._eventSubscribers.delete(subscription.messageId)
+        }
+      }
+      if (e instanceof ConnectionClosedError && !this._ended && this._subscriptions.includes(subscription)) {
+        return new Promise((resolve, reject) => {
+          subscription.pending = { resolve, reject }
+        })
+      }
+      throw e
+    }
+    return subscription.id
+  }
+
+  /**
+   * Send a request to Home Assistant.
+   * While disconnected, the request waits in the queue until authenticated or until it expires.
+   *
+   * @param   {any}              message   Message without id
+   * @param   {IRequestOptions}  options   Request options
+   * @param   {function}         [onSend]  Called with the id of the message before sending it
+   *
+   * @return  {Promise<any>}               Promise with the result
+   */
+  private _request(message: any, options: IRequestOptions = {}, onSend?: (id: number) => void): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const request: IRequest = {
+        message,
+        resolve,
+        reject,
+        timeout: options.timeout || this._requestTimeout,
+        onSend
+      }
+
+      if (this._authenticated) {
+        this._send(request)
+        return
+      }
+      if (this._ended) {
+        reject(new ConnectionClosedError(message.type))
+        return
+      }
+
+      const maxAge = options.maxAge !== undefined ? options.maxAge : this._queueMaxAge
+      request.timer = setTimeout(() => {
+        this._queue = this._queue.filter((r) => r !== request)
+        reject(new RequestExpiredError(message.type, maxAge))
+      }, maxAge)
+      this._queue.push(request)
+    })
+  }
+
+  /**
+   * Send the request through the socket and wait for the response
+   *
+   * @param   {IRequest}  request  Request to send
+   *
+   * @return  {void}
+   */
+  private _send(request: IRequest): void {
+    if (request.timer) {
+      clearTimeout(request.timer)
+    }
+
+    // Ids must be increasing, so they are assigned when sending
+    const id = ++this._id
+    if (request.onSend) {
+      request.onSend(id)
+    }
+
+    request.timer = setTimeout(() => {
+      this._promises.delete(id)
+      request.reject(new RequestTimeoutError(request.message.type, request.timeout))
+    }, request.timeout)
+    this._promises.set(id, request)
+
+    this._conn.send(JSON.stringify({ ...request.message, id }), (error) => {
+      if (error && this._promises.get(id) === request) {
+        this._promises.delete(id)
+        this._reject(request, new ConnectionClosedError(request.message.type))
+      }
+    })
+  }
+
+  /**
+   * Send the requests queued while disconnected
+   *
+   * @return  {void}
+   */
+  private _flushQueue(): void {
+    const queue = this._queue
+    this._queue = []
+    if (queue.length) {
+      Logger.debug(`Sending ${queue.length} queued requests`)
+    }
+    for (const request of queue) {
+      this._send(request)
+    }
+  }
+
+  /**
+   * Start sending pings periodically.
+   * Each ping waits an interval for its pong, after maxMissedPongs consecutive
+   * misses the socket is terminated and the reconnection process starts.
+   * The round trip time of every pong is emitted as "latency" event.
+   *
+   * @return  {void}
+   */
+  private _startHeartbeat(): void {
+    this._stopHeartbeat()
+    this._missedPongs = 0
+    if (!this._heartbeatInterval) {
+      return
+    }
+
+    const conn = this._conn
+    this._heartbeat = setInterval(() => {
+      const sentAt = Date.now()
+      this._request({ type: 'ping' }, { timeout: this._heartbeatInterval })
+        .then(() => {
+          this._missedPongs = 0
+          this._listeners.emit('latency', Date.now() - sentAt)
+        })
+        .catch((error) => {
+          if (!(error instanceof RequestTimeoutError) || conn !== this._conn) {
+            return
+          }
+          this._missedPongs++
+          Logger.error(`No pong received from Home Assistant (${this._missedPongs}/${this._maxMissedPongs})`)
+          if (this._missedPongs >= this._maxMissedPongs) {
+            Logger.error('Connection with Homeassistant is dead, terminating it')
+            conn.terminate()
+          }
+        })
+    }, this._heartbeatInterval)
+  }
+
+  /**
+   * Stop sending pings
+   *
+   * @return  {void}
+   */
+  private _stopHeartbeat(): void {
+    if (this._heartbeat) {
+      clearInterval(this._heartbeat)
+      this._heartbeat = undefined
+    }
+  }
+
+  /**
+   * Reject a request, stopping its timer
+   *
+   * @param   {IRequest}  request  Request to reject
+   * @param   {Error}     error    Reason
+   *
+   * @return  {void}
+   */
+  private _reject(request: IRequest, error: Error): void {
+    if (request.timer) {
+      clearTimeout(request.timer)
+    }
+    try {
+      request.reject(error)
+    } catch (e) {
+      Logger.error(e)
+    }
+  }
+
+  /**
+   * Replay all the subscriptions on a new authenticated connection.
+   * Events of the previous connection ids will never arrive again, so they are discarded.
+   *
+   * @return  {void}
+   */
+  private _resubscribe(): void {
+    this._eventSubscribers = new Map()
+    for (const subscription of this._subscriptions) {
+      Logger.debug(`Subscribing to ${subscription.message.type} ${subscription.message.event_type || ''}`)
+      const pending = subscription.pending
+      subscription.pending = undefined
+      this._sendSubscription(subscription)
+        .then((result) => {
+          if (pending) {
+            pending.resolve(result)
+          }
+        })
+        .catch((error) => {
+          if (pending) {
+            pending.reject(error)
+          } else {
+            Logger.error(error)
+          }
+        })
+    }
+  }
+
   /**
    * Handles every message from Home Assistant
    *
@@ -236,6 +698,11 @@ class WebsocketConnection {
     if (json.type) {
       if (json.type === 'auth_ok') {
         Logger.info('Authentication successfully')
+        this._reconnectAttempts = 0
+        this._authenticated = true
+        this._resubscribe()
+        this._flushQueue()
+        this._startHeartbeat()
         this._listeners.emit('ready')
       } else if (json.type === 'auth_invalid') {
         Logger.error('Invalid authentication')
@@ -247,7 +714,7 @@ class WebsocketConnection {
     }
 
     // If this message is a response o a previous call...
-    if (json.id && this._promises.has(json.id) && json.type === 'result') {
+    if (json.id && this._promises.has(json.id) && (json.type === 'result' || json.type === 'pong')) {
       try {
         this._responsePromise(json)
       } catch (e) {
@@ -263,23 +730,23 @@ class WebsocketConnection {
   }
 
   private _responsePromise(data: any): void {
-    const promise = this._promises.get(data.id)
+    const request = this._promises.get(data.id)
 
-    if (promise) {
-      const { resolve, reject } = promise
+    if (request) {
+      this._promises.delete(data.id)
+      if (request.timer) {
+        clearTimeout(request.timer)
+      }
 
-      if (data.success) {
+      if (data.success || data.type === 'pong') {
         try {
-          resolve(data.result)
+          request.resolve(data.result)
         } catch (e) {
           Logger.error(e)
         }
       } else {
-        try {
-          reject(data)
-        } catch (e) {
-          Logger.error(e)
-        }
+        const error = data.error || {}
+        this._reject(request, new HomeAssistantError(error.code || 'unknown_error', error.message || 'Unknown error'))
       }
     }
   }
@@ -0,0 +1,302 @@
+import { EventEmitter } from 'events'
+import { ICloseCallback, IConnection } from '../interfaces/IConnection'
+import { IState } from '../interfaces/IState'
+import { HomeAssistantError } from '../lib/errors'
+
+export type IServiceCall = {
+  domain: string
+  service: string
+  data: any
+}
+
+export type IServiceHandler = (call: IServiceCall) => any
+
+// Result of a template for the given variables, thrown errors are sent as template errors
+export type ITemplateRenderer = (variables: any) => any
+
+export type IFiredEvent = {
+  eventType: string
+  data: any
+}
+
+/**
+ * In memory replacement of WebsocketConnection.
+ * Stores the states returned by get_states, records every service call
+ * and fired event, and pushes events to the subscribers on demand.
+ */
+class FakeConnection implements IConnection {
+  private _listeners: EventEmitter = new EventEmitter()
+  private _onCloseEvents: ICloseCallback[] = []
+  private _subscribers: Map<number, { eventType: string, callback: (message: any) => void }> = new Map()
+  private _subscriptionId: number = 0
+  private _serviceHandlers: Map<string, IServiceHandler> = new Map()
+  private _templateSubscribers: Map<number, { template: string, variables: any, callback: (message: any) => void }> = new Map()
+
+  public states: Map<string, IState> = new Map()
+  // Returned by get_config
+  public config: any = { latitude: 52.3731339, longitude: 4.8903147, elevation: 0, time_zone: 'UTC', unit_system: {} }
+  // Returned by get_services
+  public services: any = {}
+  // Entries returned by config/<registry>_registry/list, by registry: entity, device, area, floor and label
+  public registries: { [registry: string]: any[] } = { entity: [], device: [], area: [], floor: [], label: [] }
+  // States returned by history/history_during_period, oldest first
+  public history: IState[] = []
+  // Rows returned by recorder/statistics_during_period by statistic_id, as Home Assistant sends them
+  // (start and end in milliseconds). They are filtered by start, whatever the period requested
+  public statistics: { [statisticId: string]: any[] } = {}
+  // Renderers of render_template by template, unknown templates are rejected with a template_error
+  public templates: Map<string, ITemplateRenderer> = new Map()
+  public serviceCalls: IServiceCall[] = []
+  public firedEvents: IFiredEvent[] = []
+
+  public addEventListener(event: string, callback: (message: any) => void): FakeConnection {
+    this._listeners.addListener(event, callback)
+    return this
+  }
+
+  public removeEventListener(event: string, callback: (message: any) => void): FakeConnection {
+    this._listeners.removeListener(event, callback)
+    return this
+  }
+
+  public async getStates(): Promise<IState[]> {
+    return Array.from(this.states.values()).map(toWire)
+  }
+
+  public async getConfig(): Promise<any> {
+    return toWire(this.config)
+  }
+
+  public async getServices(): Promise<any> {
+    return toWire(this.services)
+  }
+
+  public async listRegistry(registry: string): Promise<any[]> {
+    return toWire(this.registries[registry] || [])
+  }
+
+  public async getHistory(query: any): Promise<any> {
+    const start = Date.parse(query.start_time)
+    const end = query.end_time ? Date.parse(query.end_time) : Date.now()
+    const result: any = {}
+    for (const entityId of query.entity_ids) {
+      const states = this.history.filter((state) => state.entity_id === entityId)
+      const previous = states.filter((state) => time(state.last_updated) < start).pop()
+      const during = states.filter((state) => time(state.last_updated) >= start && time(state.last_updated) <= end)
+      const period = [
+        // State at the start of the period, dated at the start like Home Assistant does
+        ...(previous && query.include_start_time_state ? [{ ...previous, last_changed: new Date(start), last_updated: new Date(start) }] : []),
+        ...during
+      ].filter((state, i, list) => !query.significant_changes_only || i === 0 || state.state !== list[i - 1].state)
+      if (period.length > 0) {
+        result[entityId] = period.map((state, i) => compressState(state, query.minimal_response && i > 0 && i < period.length - 1))
+      }
+    }
+    return result
+  }
+
+  public async getStatistics(query: any): Promise<any> {
+    const start = Date.parse(query.start_time)
+    const end = query.end_time ? Date.parse(query.end_time) : Date.now()
+    const result: any = {}
+    for (const statisticId of query.statistic_ids) {
+      const rows = (this.statistics[statisticId] || []).filter((row) => time(row.start) >= start && time(row.start) < end)
+      if (rows.length > 0) {
+        result[statisticId] = toWire(rows)
+      }
+    }
+    return result
+  }
+
+  public async subscribeEvent(event: string, callback: (message: any) => void): Promise<number> {
+    const id = ++this._subscriptionId
+    this._subscribers.set(id, { eventType: event, callback })
+    return id
+  }
+
+  public async subscribeTemplate(template: string, variables: any, callback: (message: any) => void): Promise<number> {
+    if (!this.templates.has(template)) {
+      throw new HomeAssistantError('template_error', `No result set for template: ${template}`)
+    }
+    const id = ++this._subscriptionId
+    const subscriber = { template, variables: toWire(variables), callback }
+    this._templateSubscribers.set(id, subscriber)
+    // The first render arrives after the result of the command
+    setImmediate(() => {
+      if (this._templateSubscribers.get(id) === subscriber) {
+        this._renderTemplate(subscriber)
+      }
+    })
+    return id
+  }
+
+  public async unsubscribe(subscriptionId: number): Promise<void> {
+    this._subscribers.delete(subscriptionId)
+    this._templateSubscribers.delete(subscriptionId)
+  }
+
+  public async fireEvent(eventType: string, data: any): Promise<any> {
+    this.firedEvents.push({ eventType, data: toWire(data) })
+    this.emitEvent(eventType, data)
+    return { context: { id: `${this.firedEvents.length}`, parent_id: null, user_id: null } }
+  }
+
+  public async callService(domain: string, service: string, attributes: any): Promise<any> {
+    const call = { domain, service, data: toWire(attributes) }
+    this.serviceCalls.push(call)
+
+    const handler = this._serviceHandlers.get(`${domain}.${service}`)
+    const result = handler ? await handler(call) : undefined
+    return result === undefined ? { context: { id: `${this.serviceCalls.length}`, parent_id: null, user_id: null } } : result
+  }
+
+  public onClose(callback: ICloseCallback): FakeConnection {
+    this._onCloseEvents.push(callback)
+    return this
+  }
+
+  /**
+   * Emit the ready event, like WebsocketConnection does after auth_ok
+   *
+   * @return  {void}
+   */
+  public ready() {
+    this._listeners.emit('ready')
+  }
+
+  /**
+   * Call the close callbacks, like WebsocketConnection does when the socket closes
+   *
+   * @return  {void}
+   */
+  public close() {
+    for (const callback of this._onCloseEvents) {
+      callback()
+    }
+  }
+
+  /**
+   * Push an event to the subscribers of its type
+   *
+   * @param   {string}  eventType  Event type, for example: state_changed
+   * @param   {any}     data       Event data
+   *
+   * @return  {void}
+   */
+  public emitEvent(eventType: string, data: any) {
+    const subscribers = Array.from(this._subscribers.values())
+      .filter((s) => s.eventType === eventType)
+      .map((s) => s.callback)
+    const event = {
+      event_type: eventType,
+      data: toWire(data),
+      origin: 'LOCAL',
+      time_fired: new Date().toISOString(),
+      context: { id: `${Date.now()}`, parent_id: null, user_id: null }
+    }
+    for (const subscriber of subscribers) {
+      subscriber(event)
+    }
+  }
+
+  /**
+   * Number of subscriptions to an event type
+   *
+   * @param   {string}  eventType  Event type
+   *
+   * @return  {number}
+   */
+  public subscriptionCount(eventType: string): number {
+    return Array.from(this._subscribers.values()).filter((s) => s.eventType === eventType).length
+  }
+
+  /**
+   * Set the result of a template and push it to its subscribers
+   *
+   * @param   {string}                       template  Template, as passed to render_template
+   * @param   {any | ITemplateRenderer}      result    Result, or function rendering it from the variables
+   *
+   * @return  {void}
+   */
+  public setTemplate(template: string, result: any | ITemplateRenderer) {
+    this.templates.set(template, typeof result === 'function' ? result : () => result)
+    for (const subscriber of Array.from(this._templateSubscribers.values())) {
+      if (subscriber.template === template) {
+        this._renderTemplate(subscriber)
+      }
+    }
+  }
+
+  /**
+   * Number of template subscriptions
+   *
+   * @return  {number}
+   */
+  public templateSubscriptionCount(): number {
+    return this._templateSubscribers.size
+  }
+
+  /**
+   * Set the handler invoked when a service is called.
+   * Its return value is used as the call result.
+   *
+   * @param   {string}           domain   Domain, for example: light
+   * @param   {string}           service  Service, for example: turn_on
+   * @param   {IServiceHandler}  handler  Handler function
+   *
+   * @return  {void}
+   */
+  public setServiceHandler(domain: string, service: string, handler: IServiceHandler) {
+    this._serviceHandlers.set(`${domain}.${service}`, handler)
+  }
+
+  /**
+   * Send the render event of a template subscription
+   *
+   * @param   {any}  subscriber  Template subscription
+   *
+   * @return  {void}
+   */
+  private _renderTemplate(subscriber: { template: string, variables: any, callback: (message: any) => void }) {
+    const renderer = this.templates.get(subscriber.template)
+    if (!renderer) {
+      return
+    }
+    let event: any
+    try {
+      event = { result: toWire(renderer(subscriber.variables)), listeners: { all: false, domains: [], entities: [], time: false } }
+    } catch (e) {
+      event = { error: e.message || `${e}`, level: 'ERROR' }
+    }
+    subscriber.callback(event)
+  }
+}
+
+/**
+ * Serialize the value the same way it travels on the websocket
+ */
+const toWire = (value: any) => value === undefined ? value : JSON.parse(JSON.stringify(value))
+
+/**
+ * Milliseconds of a date, received as Date, ISO string or milliseconds
+ */
+const time = (date: Date | string | number) => new Date(date).getTime()
+
+/**
+ * State in the compressed format of the history, minimal ones only have the state and last_changed
+ */
+const compressState = (state: IState, minimal: boolean) => {
+  const lastChanged = time(state.last_changed) / 1000
+  const lastUpdated = time(state.last_updated) / 1000
+  if (minimal) {
+    return { s: state.state, lu: lastChanged }
+  }
+  return {
+    s: state.state,
+    a: toWire(state.attributes),
+    ...(lastChanged !== lastUpdated ? { lc: lastChanged } : {}),
+    lu: lastUpdated
+  }
+}
+
+export default FakeConnection
@@ -0,0 +1,433 @@
+import ws from 'ws'
+import { AddressInfo } from 'net'
+import { IState } from '../interfaces/IState'
+import buildState from './buildState'
+import { ITemplateRenderer } from './FakeConnection'
+
+export type IRecordedServiceCall = {
+  domain: string
+  service: string
+  service_data: any
+  target?: any
+}
+
+export type ICommandError = {
+  code: string
+  message: string
+}
+
+// Handler of a websocket command, its return value is sent as the result
+export type ICommandHandler = (message: any, client: IFakeClient) => any
+
+type ITemplateSubscription = {
+  client: IFakeClient
+  id: number
+  template: string
+  variables: any
+}
+
+type IFakeHomeAssistantOptions = {
+  // Access token accepted by the auth flow
+  token?: string
+  // States returned by get_states
+  states?: IState[]
+  // Port to listen, a random free port is used by default
+  port?: number
+}
+
+export interface IFakeClient {
+  socket: ws
+  authenticated: boolean
+  // Subscription id => event type (undefined for all events)
+  subscriptions: Map<number, string | undefined>
+  send (message: any): void
+}
+
+/**
+ * Local server speaking the Home Assistant websocket API.
+ * Point a WebsocketConnection at its url to exercise the real protocol
+ * (auth, get_states, get_config, get_services, config/*_registry/list, subscribe_events, unsubscribe_events, render_template,
+ * call_service, fire_event, ping)
+ * without network.
+ *
+ * @example
+ * const server = new FakeHomeAssistant({ token: 'secret' })
+ * const url = await server.start()
+ * const connected = server.waitForConnection()
+ * const api = new API({ connection: new WebsocketConnection(url, 'secret'), autoload: false })
+ * await connected
+ * server.setState('light.kitchen', 'on')
+ * await server.stop()
+ *
+ * @class FakeHomeAssistant
+ */
+class FakeHomeAssistant {
+  public readonly token: string
+  public states: Map<string, IState> = new Map()
+  // Returned by get_config
+  public config: any = { latitude: 52.3731339, longitude: 4.8903147, elevation: 0, time_zone: 'UTC', unit_system: {} }
+  // Returned by get_services
+  public services: any = {}
+  // Entries returned by config/<registry>_registry/list, by registry: entity, device, area, floor and label
+  public registries: { [registry: string]: any[] } = { entity: [], device: [], area: [], floor: [], label: [] }
+  // Renderers of render_template by template, unknown templates are answered with a template_error
+  public templates: Map<string, ITemplateRenderer> = new Map()
+  public serviceCalls: IRecordedServiceCall[] = []
+  // Every command received from authenticated clients, in order
+  public commands: any[] = []
+  public clients: Set<IFakeClient> = new Set()
+  public haVersion: string = '2024.1.0'
+
+  private _port: number
+  private _server?: ws.Server
+  private _handlers: Map<string, ICommandHandler> = new Map()
+  private _failures: Map<string, ICommandError[]> = new Map()
+  private _ignored: Map<string, number> = new Map()
+  private _commandWaiters: { type: string, resolve: (message: any) => void }[] = []
+  private _connectionWaiters: ((client: IFakeClient) => void)[] = []
+  private _templateSubscriptions: ITemplateSubscription[] = []
+
+  /**
+   * Creates an instance of FakeHomeAssistant.
+   *
+   * @param {IFakeHomeAssistantOptions} [options]
+   * @memberof FakeHomeAssistant
+   */
+  constructor(options: IFakeHomeAssistantOptions = {}) {
+    this.token = options.token || 'test-token'
+    this._port = options.port || 0
+    for (const state of options.states || []) {
+      this.states.set(state.entity_id, state)
+    }
+
+    this._handlers.set('get_states', () => Array.from(this.states.values()))
+    this._handlers.set('get_config', () => this.config)
+    this._handlers.set('get_services', () => this.services)
+    for (const registry of ['entity', 'device', 'area', 'floor', 'label']) {
+      this._handlers.set(`config/${registry}_registry/list`, () => this.registries[registry] || [])
+    }
+    this._handlers.set('subscribe_events', (message, client) => {
+      client.subscriptions.set(message.id, message.event_type)
+      return null
+    })
+    this._handlers.set('unsubscribe_events', (message, client) => {
+      const template = this._templateSubscriptions.find((t) => t.client === client && t.id === message.subscription)
+      if (template) {
+        this._templateSubscriptions = this._templateSubscriptions.filter((t) => t !== template)
+      } else if (!client.subscriptions.delete(message.subscription)) {
+        throw { code: 'not_found', message: 'Subscription not found.' }
+      }
+      return null
+    })
+    this._handlers.set('render_template', (message, client) => {
+      if (!this.templates.has(message.template)) {
+        throw { code: 'template_error', message: `No result set for template: ${message.template}` }
+      }
+      const subscription = { client, id: message.id, template: message.template, variables: message.variables || {} }
+      this._templateSubscriptions.push(subscription)
+      // The first render is sent after the result
+      setImmediate(() => this._renderTemplate(subscription))
+      return null
+    })
+    this._handlers.set('fire_event', (message) => {
+      this.fireEvent(message.event_type, message.event_data || {})
+      return { context: { id: `${Date.now()}`, parent_id: null, user_id: null } }
+    })
+    this._handlers.set('call_service', (message) => {
+      this.serviceCalls.push({
+        domain: message.domain,
+        service: message.service,
+        service_data: message.service_data,
+        target: message.target
+      })
+      return { context: { id: `${this.serviceCalls.length}`, parent_id: null, user_id: null } }
+    })
+  }
+
+  /**
+   * Url of the websocket endpoint
+   *
+   * @readonly
+   * @type {string}
+   * @memberof FakeHomeAssistant
+   */
+  get url(): string {
+    return `ws://127.0.0.1:${this._port}/api/websocket`
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns {Promise<string>}   Url of the websocket endpoint
+   * @memberof FakeHomeAssistant
+   */
+  start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = new ws.Server({ host: '127.0.0.1', port: this._port, path: '/api/websocket' })
+      server.once('error', reject)
+      server.once('listening', () => {
+        this._port = (server.address() as AddressInfo).port
+        resolve(this.url)
+      })
+      server.on('connection', this._onConnection.bind(this))
+      this._server = server
+    })
+  }
+
+  /**
+   * Close every client and stop listening
+   *
+   * @returns {Promise<void>}
+   * @memberof FakeHomeAssistant
+   */
+  stop(): Promise<void> {
+    this.disconnect()
+    return new Promise((resolve, reject) => {
+      if (!this._server) {
+        resolve()
+        return
+      }
+      this._server.close((error) => error ? reject(error) : resolve())
+      this._server = undefined
+    })
+  }
+
+  /**
+   * Drop every connected client.
+   * With graceful, the socket is closed with a close frame, otherwise it is destroyed.
+   *
+   * @param {boolean} [graceful=false]
+   * @memberof FakeHomeAssistant
+   */
+  disconnect(graceful: boolean = false) {
+    for (const client of this.clients) {
+      if (graceful) {
+        client.socket.close()
+      } else {
+        client.socket.terminate()
+      }
+    }
+  }
+
+  /**
+   * Change the state of an entity and push state_changed to the subscribers
+   *
+   * @param {string} entityId
+   * @param {string} state
+   * @param {*} [attributes]     Attributes, the previous ones are kept when omitted
+   * @returns {IState}           New state
+   * @memberof FakeHomeAssistant
+   */
+  setState(entityId: string, state: string, attributes?: any): IState {
+    const oldState = this.states.get(entityId) || null
+    const newState = buildState(entityId, state, attributes, oldState || undefined)
+    this.states.set(entityId, newState)
+    this.fireEvent('state_changed', {
+      entity_id: entityId,
+      old_state: oldState,
+      new_state: newState
+    })
+    return newState
+  }
+
+  /**
+   * Push an event to every client subscribed to its type
+   *
+   * @param {string} eventType
+   * @param {*} data
+   * @memberof FakeHomeAssistant
+   */
+  fireEvent(eventType: string, data: any) {
+    const event = {
+      event_type: eventType,
+      data,
+      origin: 'LOCAL',
+      time_fired: new Date().toISOString(),
+      context: { id: `${Date.now()}`, parent_id: null, user_id: null }
+    }
+    for (const client of this.clients) {
+      client.subscriptions.forEach((type, id) => {
+        if (!type || type === eventType) {
+          client.send({ id, type: 'event', event })
+        }
+      })
+    }
+  }
+
+  /**
+   * Set the result of a template and push it to its subscribers
+   *
+   * @param {string} template
+   * @param {(any | ITemplateRenderer)} result    Result, or function of the variables throwing on errors
+   * @memberof FakeHomeAssistant
+   */
+  setTemplate(template: string, result: any | ITemplateRenderer) {
+    this.templates.set(template, typeof result === 'function' ? result : () => result)
+    for (const subscription of this._templateSubscriptions) {
+      if (subscription.template === template) {
+        this._renderTemplate(subscription)
+      }
+    }
+  }
+
+  /**
+   * Set the handler of a command type, replacing the default one
+   *
+   * @param {string} type                Command type, for example: get_states
+   * @param {ICommandHandler} handler    Its return value is the result, thrown ICommandError are sent as errors
+   * @memberof FakeHomeAssistant
+   */
+  handle(type: string, handler: ICommandHandler) {
+    this._handlers.set(type, handler)
+  }
+
+  /**
+   * Answer the next command of this type with an error
+   *
+   * @param {string} type
+   * @param {ICommandError} [error]
+   * @memberof FakeHomeAssistant
+   */
+  failNext(type: string, error: ICommandError = { code: 'home_assistant_error', message: 'Injected error' }) {
+    const failures = this._failures.get(type) || []
+    failures.push(error)
+    this._failures.set(type, failures)
+  }
+
+  /**
+   * Never answer the next commands of this type
+   *
+   * @param {string} type
+   * @param {number} [times=1]
+   * @memberof FakeHomeAssistant
+   */
+  ignoreNext(type: string, times: number = 1) {
+    this._ignored.set(type, (this._ignored.get(type) || 0) + times)
+  }
+
+  /**
+   * Resolves with the next command of this type
+   *
+   * @param {string} type
+   * @returns {Promise<any>}    Command message
+   * @memberof FakeHomeAssistant
+   */
+  waitForCommand(type: string): Promise<any> {
+    return new Promise((resolve) => {
+      this._commandWaiters.push({ type, resolve })
+    })
+  }
+
+  /**
+   * Resolves when the next client is authenticated
+   *
+   * @returns {Promise<IFakeClient>}
+   * @memberof FakeHomeAssistant
+   */
+  waitForConnection(): Promise<IFakeClient> {
+    return new Promise((resolve) => {
+      this._connectionWaiters.push(resolve)
+    })
+  }
+
+  private _onConnection(socket: ws) {
+    const client: IFakeClient = {
+      socket,
+      authenticated: false,
+      subscriptions: new Map(),
+      send: (message: any) => {
+        if (socket.readyState === ws.OPEN) {
+          socket.send(JSON.stringify(message))
+        }
+      }
+    }
+    this.clients.add(client)
+    socket.on('close', () => {
+      this.clients.delete(client)
+      this._templateSubscriptions = this._templateSubscriptions.filter((t) => t.client !== client)
+    })
+    socket.on('message', (data) => this._onMessage(client, data.toString()))
+
+    client.send({ type: 'auth_required', ha_version: this.haVersion })
+  }
+
+  private _renderTemplate(subscription: ITemplateSubscription) {
+    const renderer = this.templates.get(subscription.template)
+    if (!renderer || !this._templateSubscriptions.includes(subscription)) {
+      return
+    }
+    let event: any
+    try {
+      event = { result: renderer(subscription.variables), listeners: { all: false, domains: [], entities: [], time: false } }
+    } catch (e) {
+      event = { error: e.message || `${e}`, level: 'ERROR' }
+    }
+    subscription.client.send({ id: subscription.id, type: 'event', event })
+  }
+
+  private _onMessage(client: IFakeClient, data: string) {
+    let message: any
+    try {
+      message = JSON.parse(data)
+    } catch (e) {
+      client.socket.close()
+      return
+    }
+
+    // Authentication flow
+    if (!client.authenticated) {
+      if (message.type !== 'auth') {
+        client.socket.close()
+      } else if (message.access_token === this.token) {
+        client.authenticated = true
+        client.send({ type: 'auth_ok', ha_version: this.haVersion })
+        const connectionWaiters = this._connectionWaiters
+        this._connectionWaiters = []
+        connectionWaiters.forEach((resolve) => resolve(client))
+      } else {
+        client.send({ type: 'auth_invalid', message: 'Invalid access token or password' })
+        client.socket.close()
+      }
+      return
+    }
+
+    this.commands.push(message)
+    const waiters = this._commandWaiters.filter((w) => w.type === message.type)
+    this._commandWaiters = this._commandWaiters.filter((w) => w.type !== message.type)
+    waiters.forEach((w) => w.resolve(message))
+
+    const ignored = this._ignored.get(message.type)
+    if (ignored) {
+      this._ignored.set(message.type, ignored - 1)
+      return
+    }
+
+    const failures = this._failures.get(message.type)
+    if (failures && failures.length) {
+      client.send({ id: message.id, type: 'result', success: false, error: failures.shift() })
+      return
+    }
+
+    if (message.type === 'ping') {
+      client.send({ id: message.id, type: 'pong' })
+      return
+    }
+
+    const handler = this._handlers.get(message.type)
+    if (!handler) {
+      client.send({ id: message.id, type: 'result', success: false, error: { code: 'unknown_command', message: 'Unknown command.' } })
+      return
+    }
+
+    Promise.resolve()
+      .then(() => handler(message, client))
+      .then((result) => {
+        client.send({ id: message.id, type: 'result', success: true, result })
+      })
+      .catch((error) => {
+        client.send({ id: message.id, type: 'result', success: false, error: { code: error.code || 'unknown_error', message: error.message || `${error}` } })
+      })
+  }
+}
+
+export default FakeHomeAssistant
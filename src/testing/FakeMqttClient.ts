@@ -0,0 +1,56 @@
+import { EventEmitter } from 'events'
+import mqtt from 'mqtt'
+
+export type IPublishedMessage = {
+  topic: string
+  payload: string
+  options: mqtt.IClientPublishOptions
+}
+
+/**
+ * In memory replacement of the mqtt client.
+ * Records subscriptions and published messages and delivers messages on demand.
+ */
+class FakeMqttClient extends EventEmitter {
+  public subscriptions: Set<string> = new Set()
+  public published: IPublishedMessage[] = []
+  public ended: boolean = false
+
+  public subscribe(topic: string, options?: mqtt.IClientSubscribeOptions) {
+    this.subscriptions.add(topic)
+    return this
+  }
+
+  public unsubscribe(topic: string) {
+    this.subscriptions.delete(topic)
+    return this
+  }
+
+  public publish(topic: string, payload: string, options?: mqtt.IClientPublishOptions) {
+    this.published.push({ topic, payload, options: options || {} })
+    return this
+  }
+
+  public end(force?: boolean, options?: object, callback?: () => void) {
+    this.ended = true
+    if (callback) {
+      setImmediate(callback)
+    }
+    return this
+  }
+
+  /**
+   * Deliver a message as if it came from the broker
+   *
+   * @param   {string}           topic    Topic
+   * @param   {string | Buffer}  payload  Payload
+   *
+   * @return  {void}
+   */
+  public receive(topic: string, payload: string | Buffer) {
+    const message = typeof payload === 'string' ? Buffer.from(payload) : payload
+    this.emit('message', topic, message, { topic, payload: message })
+  }
+}
+
+export default FakeMqttClient
@@ -0,0 +1,376 @@
+import FakeTimers, { InstalledClock } from '@sinonjs/fake-timers'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import API, { IFetch } from '../lib/API'
+import MQTT from '../lib/mqtt'
+import Scheduler from '../lib/Scheduler'
+import Storage from '../lib/Storage'
+import { Automation } from '../interfaces/Automation'
+import { IState } from '../interfaces/IState'
+import { IRegistryName } from '../interfaces/IRegistryEntries'
+import { ILocation } from '../lib/sun'
+import FakeConnection, { IFiredEvent, IServiceCall, IServiceHandler, ITemplateRenderer } from './FakeConnection'
+import FakeMqttClient, { IPublishedMessage } from './FakeMqttClient'
+import buildState from './buildState'
+
+type ITestState = Partial<IState> & Pick<IState, 'entity_id' | 'state'>
+
+type ITestKitOptions = {
+  // Initial time of the fake clock
+  now?: Date | number
+  // States returned by Home Assistant when the API syncs
+  states?: ITestState[]
+  // Location of get_config, used by the sun events
+  location?: ILocation
+  // Data directory for persistent jobs. A temporary one, removed on teardown, by default
+  dataDir?: string
+}
+
+// Real setImmediate, it is not faked so pending promises can be flushed
+const nextMacrotask = () => new Promise((resolve) => setImmediate(resolve))
+
+/**
+ * Offline harness to test automations.
+ * Replaces the API, MQTT and Scheduler singletons with instances connected to fakes
+ * and installs a fake clock, so timers and dates are driven by the test.
+ *
+ * @example
+ * const kit = new TestKit({ states: [{ entity_id: 'input_boolean.litter_box', state: 'off' }] })
+ * await kit.start()
+ * kit.load(require('../automations/litter_box'))
+ * await kit.setState('input_boolean.litter_box', 'on')
+ * expect(kit.serviceCallsTo('notify')).toHaveLength(2)
+ * await kit.advance(30 * 60 * 1000)
+ * await kit.teardown()
+ *
+ * @class TestKit
+ */
+class TestKit {
+  public readonly clock: InstalledClock
+  public readonly connection: FakeConnection
+  public readonly mqttClient: FakeMqttClient
+  public readonly api: API
+  public readonly mqtt: MQTT
+  public readonly scheduler: Scheduler
+  public readonly storage: Storage
+
+  private _automations: Automation[] = []
+  private _tmpDir?: string
+
+  /**
+   * Creates the fakes and installs them as singletons
+   *
+   * @param {ITestKitOptions} [options]
+   * @memberof TestKit
+   */
+  constructor(options: ITestKitOptions = {}) {
+    this.clock = FakeTimers.install({
+      now: options.now || Date.now(),
+      toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date']
+    })
+
+    this.connection = new FakeConnection()
+    if (options.location) {
+      Object.assign(this.connection.config, options.location)
+    }
+    this.mqttClient = new FakeMqttClient()
+    this.api = new API({
+      connection: this.connection,
+      fetch: this._fetch,
+      autoload: false
+    })
+    this.mqtt = new MQTT(this.mqttClient)
+    this.scheduler = new Scheduler({
+      now: () => this.clock.now,
+      setTimeout: (callback, milliseconds) => this.clock.setTimeout(callback, milliseconds),
+      clearTimeout: (handle) => this.clock.clearTimeout(handle)
+    })
+
+    API.setInstance(this.api)
+    MQTT.setInstance(this.mqtt)
+    if (!options.dataDir) {
+      this._tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hass-sidecar-'))
+    }
+    this.storage = new Storage(options.dataDir || this._tmpDir)
+
+    Scheduler.setInstance(this.scheduler)
+    Storage.setInstance(this.storage)
+
+    for (const state of options.states || []) {
+      this.seedState(state.entity_id, state.state, state.attributes)
+    }
+  }
+
+  /**
+   * Every service call made through the API
+   *
+   * @readonly
+   * @type {IServiceCall[]}
+   * @memberof TestKit
+   */
+  get serviceCalls(): IServiceCall[] {
+    return this.connection.serviceCalls
+  }
+
+  /**
+   * Every event fired through the API
+   *
+   * @readonly
+   * @type {IFiredEvent[]}
+   * @memberof TestKit
+   */
+  get firedEvents(): IFiredEvent[] {
+    return this.connection.firedEvents
+  }
+
+  /**
+   * Every message published on MQTT
+   *
+   * @readonly
+   * @type {IPublishedMessage[]}
+   * @memberof TestKit
+   */
+  get mqttPublished(): IPublishedMessage[] {
+    return this.mqttClient.published
+  }
+
+  /**
+   * Connects the API: syncs the seeded states and subscribes to the events
+   *
+   * @returns {Promise<void>}
+   * @memberof TestKit
+   */
+  async start(): Promise<void> {
+    this.connection.ready()
+    await this.flush()
+  }
+
+  /**
+   * Simulate a dropped connection followed by a reconnection.
+   * States changed with seedState meanwhile are notified as missed changes.
+   *
+   * @returns {Promise<void>}
+   * @memberof TestKit
+   */
+  async reconnect(): Promise<void> {
+    this.connection.close()
+    this.connection.ready()
+    await this.flush()
+  }
+
+  /**
+   * Instantiate an automation class, it will be destroyed on teardown
+   *
+   * @template T
+   * @param {new () => T} AutomationClass   Class exported by the automation file
+   * @returns {T}                           Automation instance
+   * @memberof TestKit
+   */
+  load<T extends Automation>(AutomationClass: new () => T): T {
+    const automation = new AutomationClass()
+    this._automations.push(automation)
+    return automation
+  }
+
+  /**
+   * Set the state of an entity without emitting events.
+   * Use it before start() to prepare the states returned by Home Assistant.
+   * Like every state set by the kit, it is recorded in the history at the time of the fake clock.
+   *
+   * @param {string} entityId
+   * @param {string} state
+   * @param {*} [attributes]     Attributes, the previous ones are kept when omitted
+   * @returns {IState}           Stored state
+   * @memberof TestKit
+   */
+  seedState(entityId: string, state: string, attributes?: any): IState {
+    const newState = buildState(entityId, state, attributes, this.connection.states.get(entityId))
+    this.connection.states.set(entityId, newState)
+    this.connection.history.push(newState)
+    return newState
+  }
+
+  /**
+   * Change the state of an entity and emit the state_changed event
+   *
+   * @param {string} entityId
+   * @param {string} state
+   * @param {*} [attributes]     Attributes, the previous ones are kept when omitted
+   * @returns {Promise<void>}
+   * @memberof TestKit
+   */
+  async setState(entityId: string, state: string, attributes?: any): Promise<void> {
+    const oldState = this.connection.states.get(entityId) || null
+    const newState = this.seedState(entityId, state, attributes)
+    this.connection.emitEvent('state_changed', {
+      entity_id: entityId,
+      old_state: oldState,
+      new_state: newState
+    })
+    await this.flush()
+  }
+
+  /**
+   * Emit the automation_triggered event
+   *
+   * @param {string} entityId     entity_id of the automation
+   * @param {string} [name]       Name of the automation
+   * @returns {Promise<void>}
+   * @memberof TestKit
+   */
+  async triggerAutomation(entityId: string, name?: string): Promise<void> {
+    await this.emitEvent('automation_triggered', {
+      entity_id: entityId,
+      name: name || entityId
+    })
+  }
+
+  /**
+   * Emit any Home Assistant event
+   *
+   * @param {string} eventType
+   * @param {*} data
+   * @returns {Promise<void>}
+   * @memberof TestKit
+   */
+  async emitEvent(eventType: string, data: any): Promise<void> {
+    this.connection.emitEvent(eventType, data)
+    await this.flush()
+  }
+
+  /**
+   * Deliver an MQTT message
+   *
+   * @param {string} topic
+   * @param {(string | Buffer)} payload
+   * @returns {Promise<void>}
+   * @memberof TestKit
+   */
+  async mqttMessage(topic: string, payload: string | Buffer): Promise<void> {
+    this.mqttClient.receive(topic, payload)
+    await this.flush()
+  }
+
+  /**
+   * Service calls filtered by domain and service
+   *
+   * @param {string} domain
+   * @param {string} [service]
+   * @returns {IServiceCall[]}
+   * @memberof TestKit
+   */
+  serviceCallsTo(domain: string, service?: string): IServiceCall[] {
+    return this.serviceCalls.filter((call) => call.domain === domain && (!service || call.service === service))
+  }
+
+  /**
+   * Simulate the effect of a service, for example updating the entity state
+   *
+   * @param {string} domain
+   * @param {string} service
+   * @param {IServiceHandler} handler    Its return value is the result of the call
+   * @memberof TestKit
+   */
+  onService(domain: string, service: string, handler: IServiceHandler) {
+    this.connection.setServiceHandler(domain, service, handler)
+  }
+
+  /**
+   * Replace the entries of a registry and emit its *_registry_updated event
+   *
+   * @param {IRegistryName} registry   entity, device, area, floor or label
+   * @param {any[]} entries      Entries in the format of config/<registry>_registry/list
+   * @returns {Promise<void>}
+   * @memberof TestKit
+   */
+  async setRegistry(registry: IRegistryName, entries: any[]): Promise<void> {
+    this.connection.registries[registry] = entries
+    await this.emitEvent(`${registry}_registry_updated`, { action: 'update' })
+  }
+
+  /**
+   * Set the result of a template, pushing it to the onTemplateChange subscribers.
+   * Templates without a result are rejected like invalid ones.
+   *
+   * @param {string} template
+   * @param {(any | ITemplateRenderer)} result    Result, or function of the variables throwing on errors
+   * @returns {Promise<void>}
+   * @memberof TestKit
+   */
+  async setTemplate(template: string, result: any | ITemplateRenderer): Promise<void> {
+    this.connection.setTemplate(template, result)
+    await this.flush()
+  }
+
+  /**
+   * Advance the fake clock, running every timer due in that period
+   *
+   * @param {number} milliseconds
+   * @returns {Promise<void>}
+   * @memberof TestKit
+   */
+  async advance(milliseconds: number): Promise<void> {
+    await this.clock.tickAsync(milliseconds)
+    await this.flush()
+  }
+
+  /**
+   * Advance the fake clock until the given date
+   *
+   * @param {Date} date
+   * @returns {Promise<void>}
+   * @memberof TestKit
+   */
+  async advanceTo(date: Date): Promise<void> {
+    await this.advance(Math.max(0, date.getTime() - this.clock.now))
+  }
+
+  /**
+   * Wait until pending promises and callbacks are settled
+   *
+   * @returns {Promise<void>}
+   * @memberof TestKit
+   */
+  async flush(): Promise<void> {
+    await nextMacrotask()
+  }
+
+  /**
+   * Destroy the loaded automations, uninstall the fake clock,
+   * release the singletons and remove the temporary data directory
+   *
+   * @returns {Promise<void>}     Resolved once the data is saved and the temporary directory removed
+   * @memberof TestKit
+   */
+  async teardown(): Promise<void> {
+    for (const automation of this._automations) {
+      automation.destroy()
+    }
+    this._automations = []
+    this.clock.uninstall()
+    API.setInstance(undefined)
+    MQTT.setInstance(undefined)
+    Scheduler.setInstance(undefined)
+    Storage.setInstance(undefined)
+    await this.storage.flush()
+    if (this._tmpDir) {
+      await fs.promises.rm(this._tmpDir, { recursive: true, force: true })
+    }
+  }
+
+  /**
+   * Replacement of fetch for the REST API, handles POST /api/states/<entity_id>
+   */
+  private _fetch: IFetch = async (url, init) => {
+    const match = /\/api\/states\/([^/?]+)$/.exec(url)
+    if (match && init.method === 'POST') {
+      const body = JSON.parse(init.body)
+      await this.setState(match[1], body.state, body.attributes)
+      return { ok: true, status: 200, statusText: 'OK', json: async () => this.connection.states.get(match[1]) }
+    }
+    return { ok: false, status: 404, statusText: 'Not Found', json: async () => ({}) }
+  }
+}
+
+export default TestKit
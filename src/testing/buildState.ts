@@ -0,0 +1,32 @@
+import { IState } from '../interfaces/IState'
+
+let contextId = 0
+
+/**
+ * Build a new state the way Home Assistant does: last_changed only moves
+ * when the state value changes, last_updated moves on every update.
+ *
+ * @param   {string}  entityId    entity_id
+ * @param   {string}  state       New state value
+ * @param   {any}     attributes  Attributes, the previous ones are kept when omitted
+ * @param   {IState}  [previous]  Current state of the entity
+ *
+ * @return  {IState}              New state
+ */
+const buildState = (entityId: string, state: string, attributes?: any, previous?: IState): IState => {
+  const now = new Date()
+  return {
+    entity_id: entityId,
+    state,
+    attributes: attributes !== undefined ? attributes : (previous ? previous.attributes : {}),
+    last_changed: previous && previous.state === state ? previous.last_changed : now,
+    last_updated: now,
+    context: {
+      id: `${++contextId}`,
+      parent_id: '',
+      user_id: ''
+    }
+  }
+}
+
+export default buildState